@@ -8,10 +8,11 @@ contract DeployPaymasterScript is Script {
     function run() external {
         uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
         address entryPointAddress = vm.envAddress("ENTRYPOINT_ADDRESS");
+        address arbiterAddress = vm.envAddress("ARBITER_ADDRESS");
         
         vm.startBroadcast(deployerPrivateKey);
         
-        MiniChessEscrowPaymaster escrow = new MiniChessEscrowPaymaster(entryPointAddress);
+        MiniChessEscrowPaymaster escrow = new MiniChessEscrowPaymaster(entryPointAddress, arbiterAddress);
         
         vm.stopBroadcast();
         
@@ -19,5 +20,7 @@ contract DeployPaymasterScript is Script {
         console.log(address(escrow));
         console.log("EntryPoint address:");
         console.log(entryPointAddress);
+        console.log("Arbiter address:");
+        console.log(arbiterAddress);
     }
 }
\ No newline at end of file
@@ -37,6 +37,9 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
     /// @dev EntryPoint interface for account abstraction
     IEntryPoint public immutable entryPoint;
     
+    /// @dev Server key that confirms captures and results from the stored move and action logs
+    address public immutable arbiter;
+    
     // ============ Piece Values ============
     
     /// @dev Monetary value of each chess piece in cUSD (18 decimals)
@@ -92,6 +95,7 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
         uint256 gamesLost;         // Total games lost
         uint256 totalEarned;        // Total cUSD earned from wins (profit)
         uint256 totalLost;          // Total cUSD lost from losses (loss)
+        uint256 gamesDrawn;         // Total games drawn
     }
     
     // ============ Storage ============
@@ -138,6 +142,13 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
         uint256 player2Payout
     );
     
+    /// @dev Emitted when a game ends in a draw
+    event GameDrawn(
+        uint256 indexed gameId,
+        uint256 player1Payout,
+        uint256 player2Payout
+    );
+    
     /// @dev Emitted when a waiting game is cancelled
     event GameCancelled(uint256 indexed gameId);
     
@@ -161,21 +172,29 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
     // ============ Constructor ============
     
     /**
-     * @dev Initialize the contract with EntryPoint address
+     * @dev Initialize the contract with EntryPoint and arbiter addresses
      * @param _entryPoint The EntryPoint contract address for account abstraction
+     * @param _arbiter The address whose signature is required to pay out captures and settle a game
      */
-    constructor(address _entryPoint) {
+    constructor(address _entryPoint, address _arbiter) {
+        require(_arbiter != address(0), "Invalid arbiter");
         cUSD = IERC20(CUSD_TOKEN);
         entryPoint = IEntryPoint(_entryPoint);
+        arbiter = _arbiter;
     }
     
     // ============ Game Management ============
     
     /**
      * @dev Create a new game with session authorization (single signature)
-     * Combines session key authorization and game creation in one transaction
+     * Combines session key authorization and game creation in one transaction.
+     * The signed AUTHORIZE_SESSION message names the per-game session key, so
+     * the server accepts moves signed by it without a second wallet prompt
      *
+     * @param sessionKey Address of the key that signs moves, or zero if there is none
+     * @param validUntil Unix time the session key stops being accepted
      * @param sessionSignature Signature authorizing session for the new game
+     * @param actualSigner Player's wallet that signed AUTHORIZE_SESSION
      * @return gameId The ID of the newly created game
      *
      * Requirements:
@@ -189,11 +208,13 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
      * - Emits GameCreated and SessionAuthorized events
      */
     function createGameWithSession(
+        address sessionKey,
+        uint256 validUntil,
         bytes calldata sessionSignature,
         address actualSigner
     ) external nonReentrant returns (uint256) {
         bytes32 sessionMessageHash = keccak256(abi.encodePacked(
-            "AUTHORIZE_SESSION", gameCounter + 1, block.chainid
+            "AUTHORIZE_SESSION", gameCounter + 1, sessionKey, validUntil, block.chainid
         ));
         
         address sessionSigner = ECDSA.recover(
@@ -229,10 +250,14 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
     
     /**
      * @dev Join an existing game with session authorization (single signature)
-     * Combines session key authorization and game joining in one transaction
+     * Combines session key authorization and game joining in one transaction,
+     * signed over the same AUTHORIZE_SESSION message as createGameWithSession
      *
      * @param gameId The ID of the game to join
+     * @param sessionKey Address of the key that signs moves, or zero if there is none
+     * @param validUntil Unix time the session key stops being accepted
      * @param sessionSignature Signature authorizing session for the game
+     * @param actualSigner Player's wallet that signed AUTHORIZE_SESSION
      *
      * Requirements:
      * - Game must be in WAITING status
@@ -249,6 +274,8 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
 
     function joinGameWithSession(
         uint256 gameId,
+        address sessionKey,
+        uint256 validUntil,
         bytes calldata sessionSignature,
         address actualSigner
     ) external nonReentrant {
@@ -258,7 +285,7 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
         require(actualSigner != game.creatorSigner, "Cannot join own game");
         
         bytes32 sessionMessageHash = keccak256(abi.encodePacked(
-            "AUTHORIZE_SESSION", gameId, block.chainid
+            "AUTHORIZE_SESSION", gameId, sessionKey, validUntil, block.chainid
         ));
         
         address sessionSigner = ECDSA.recover(
@@ -289,20 +316,23 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
     // ============ Gameplay Functions ============
     
     /**
-     * @dev Capture a chess piece with gasless execution via paymaster
-     * Only callable by the EntryPoint contract (account abstraction)
+     * @dev Pay out a captured piece from the captured player's balance to the captor
+     * The arbiter signs CAPTURE_PIECE only for captures it found by replaying
+     * the stored move log, so a player cannot credit themselves a capture.
+     * The signature is the authorization: anyone may submit it, usually the
+     * server's relayer
      *
      * @param gameId The game ID
+     * @param moveNumber The move that made the capture
      * @param captor The player capturing the piece
      * @param pieceType The type of piece being captured
-     * @param signature Signature authorizing the capture
+     * @param arbiterSignature Arbiter's signature over CAPTURE_PIECE for the move
      *
      * Requirements:
-     * - Must be called by EntryPoint contract
      * - Game must be ACTIVE
      * - Captor must be authorized for the game
-     * - Valid signature from captor
-     * - Capture not previously processed
+     * - Valid CAPTURE_PIECE signature from the arbiter
+     * - Capture for the move not previously processed
      *
      * Effects:
      * - Transfers piece value from captured player to captor
@@ -312,13 +342,11 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
      */
     function capturePiecePaymaster(
         uint256 gameId,
+        uint256 moveNumber,
         address captor,
         PieceType pieceType,
-        bytes calldata signature,
-        address actualSigner
+        bytes calldata arbiterSignature
     ) external nonReentrant {
-        require(msg.sender == address(entryPoint), "Only entry point");
-        
         Game storage game = games[gameId];
         require(game.status == GameStatus.ACTIVE, "Game not active");
         require(authorized[gameId][captor], "Not authorized");
@@ -327,22 +355,21 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
             "Invalid captor"
         );
         
-        bytes32 captureId = keccak256(abi.encodePacked(
-            gameId, captor, pieceType, block.timestamp
-        ));
+        // A move captures at most once, so its number identifies the capture
+        bytes32 captureId = keccak256(abi.encodePacked(gameId, moveNumber));
         require(!processedCaptures[gameId][captureId], "Already processed");
         processedCaptures[gameId][captureId] = true;
         
         bytes32 messageHash = keccak256(abi.encodePacked(
-            "CAPTURE_PIECE", gameId, captor, uint256(pieceType), block.chainid
+            "CAPTURE_PIECE", gameId, moveNumber, captor, uint256(pieceType), block.chainid
         ));
         
         address signer = ECDSA.recover(
             MessageHashUtils.toEthSignedMessageHash(messageHash),
-            signature
+            arbiterSignature
         );
         
-        require(signer == actualSigner, "Invalid signature");
+        require(signer == arbiter, "Invalid arbiter signature");
         
         uint256 captureValue = getPieceValue(pieceType);
         require(captureValue > 0, "Invalid piece");
@@ -365,16 +392,20 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
     // ============ Game Completion ============
     
     /**
-     * @dev End a game and update player statistics
-     * Can be called by either player when the game is complete
+     * @dev End a game with a winner and update player statistics
+     * Used for checkmate and resignation. The arbiter signs END_GAME for the
+     * winner only after confirming the result from the move and action logs,
+     * so a player cannot name themselves the winner. The signature is the
+     * authorization: anyone may submit it, usually the server's relayer
      *
      * @param gameId The game ID to end
      * @param winner The address of the winning player
+     * @param arbiterSignature Arbiter's signature over END_GAME for the game and winner
      *
      * Requirements:
      * - Game must be ACTIVE
-     * - Caller must be a player in the game
      * - Winner must be one of the players
+     * - Valid END_GAME signature from the arbiter
      *
      * Effects:
      * - Updates player statistics for both players
@@ -382,18 +413,25 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
      * - Transfers final balances to players
      * - Emits GameEnded and StatsUpdated events
      */
-    function endGame(uint256 gameId, address winner) external nonReentrant {
+    function endGame(uint256 gameId, address winner, bytes calldata arbiterSignature) external nonReentrant {
         Game storage game = games[gameId];
         require(game.status == GameStatus.ACTIVE, "Game not active");
-        require(
-            msg.sender == game.player1 || msg.sender == game.player2,
-            "Not a player"
-        );
         require(
             winner == game.player1 || winner == game.player2,
             "Invalid winner"
         );
         
+        bytes32 resultMessageHash = keccak256(abi.encodePacked(
+            "END_GAME", gameId, winner, block.chainid
+        ));
+        
+        address resultSigner = ECDSA.recover(
+            MessageHashUtils.toEthSignedMessageHash(resultMessageHash),
+            arbiterSignature
+        );
+        
+        require(resultSigner == arbiter, "Invalid arbiter signature");
+        
         game.status = GameStatus.FINISHED;
         game.winner = winner;
         
@@ -446,6 +484,87 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
         emit StatsUpdated(loser, loserStats.gamesPlayed, loserStats.gamesWon, loserStats.gamesLost, loserStats.totalEarned, loserStats.totalLost);
     }
     
+    /**
+     * @dev End a game as a draw and update player statistics
+     * Used for stalemate, repetition, the fifty-move rule, insufficient
+     * material and draws agreed between the players. The arbiter signs
+     * END_GAME_DRAW only after confirming the draw from the move and action
+     * logs, so a player cannot call a draw to escape a losing game. As with
+     * endGame, the signature is the authorization and anyone may submit it
+     *
+     * @param gameId The game ID to end
+     * @param arbiterSignature Arbiter's signature over END_GAME_DRAW for the game
+     *
+     * Requirements:
+     * - Game must be ACTIVE
+     * - Valid END_GAME_DRAW signature from the arbiter
+     *
+     * Effects:
+     * - Counts a draw for both players
+     * - Adds game to both players' history
+     * - Transfers current balances to players (captures made during the game stand)
+     * - Emits GameDrawn, GameEnded (with no winner) and StatsUpdated events
+     */
+    function endGameDraw(uint256 gameId, bytes calldata arbiterSignature) external nonReentrant {
+        Game storage game = games[gameId];
+        require(game.status == GameStatus.ACTIVE, "Game not active");
+        
+        bytes32 drawMessageHash = keccak256(abi.encodePacked(
+            "END_GAME_DRAW", gameId, block.chainid
+        ));
+        
+        address drawSigner = ECDSA.recover(
+            MessageHashUtils.toEthSignedMessageHash(drawMessageHash),
+            arbiterSignature
+        );
+        
+        require(drawSigner == arbiter, "Invalid arbiter signature");
+        
+        game.status = GameStatus.FINISHED;
+        game.winner = address(0);
+        
+        uint256 player1Payout = game.player1Balance;
+        uint256 player2Payout = game.player2Balance;
+        
+        PlayerStats storage player1Stats = _recordDraw(game.player1, player1Payout);
+        playerGameHistory[game.player1].push(gameId);
+        
+        PlayerStats storage player2Stats = _recordDraw(game.player2, player2Payout);
+        playerGameHistory[game.player2].push(gameId);
+        
+        // Reset balances before transfer
+        game.player1Balance = 0;
+        game.player2Balance = 0;
+        
+        if (player1Payout > 0) {
+            require(cUSD.transfer(game.player1, player1Payout), "Payout failed");
+        }
+        
+        if (player2Payout > 0) {
+            require(cUSD.transfer(game.player2, player2Payout), "Payout failed");
+        }
+        
+        emit GameDrawn(gameId, player1Payout, player2Payout);
+        emit GameEnded(gameId, address(0), player1Payout, player2Payout);
+        emit StatsUpdated(game.player1, player1Stats.gamesPlayed, player1Stats.gamesWon, player1Stats.gamesLost, player1Stats.totalEarned, player1Stats.totalLost);
+        emit StatsUpdated(game.player2, player2Stats.gamesPlayed, player2Stats.gamesWon, player2Stats.gamesLost, player2Stats.totalEarned, player2Stats.totalLost);
+    }
+    
+    /**
+     * @dev Count a drawn game for a player
+     * Captures can still leave a player up or down against their escrow
+     */
+    function _recordDraw(address player, uint256 payout) internal returns (PlayerStats storage stats) {
+        stats = playerStats[player];
+        stats.gamesPlayed++;
+        stats.gamesDrawn++;
+        if (payout > ESCROW_AMOUNT) {
+            stats.totalEarned += (payout - ESCROW_AMOUNT);
+        } else if (payout < ESCROW_AMOUNT) {
+            stats.totalLost += (ESCROW_AMOUNT - payout);
+        }
+    }
+    
     /**
      * @dev Claim victory by timeout when opponent doesn't move
      * Can be called after GAME_TIMEOUT has passed since last move
@@ -671,6 +790,16 @@ contract MiniChessEscrowPaymaster is ReentrancyGuard {
         );
     }
     
+    /**
+     * @dev Get the number of drawn games for a player
+     * Kept out of getPlayerStats so its return values stay the same
+     * @param player The player address to query
+     * @return Total games drawn
+     */
+    function getPlayerDraws(address player) external view returns (uint256) {
+        return playerStats[player].gamesDrawn;
+    }
+    
     /**
      * @dev Get paginated game history for a player
      * Returns newest games first (reverse chronological order)
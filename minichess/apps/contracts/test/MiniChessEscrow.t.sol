@@ -2,9 +2,19 @@
 pragma solidity ^0.8.28;
 
 import "forge-std/Test.sol";
-import "openzeppelin-contracts/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
 import "../src/MiniChessEscrowPaymaster.sol";
 
+/// @dev Stand-in for cUSD, etched at the address the escrow hard-codes
+contract MockCUSD is ERC20 {
+    constructor() ERC20("Celo Dollar", "cUSD") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
 contract MiniChessEscrowTest is Test {
     MiniChessEscrowPaymaster public paymasterEscrow;
 
@@ -13,11 +23,21 @@ contract MiniChessEscrowTest is Test {
     address public owner = vm.addr(1);
     address public player1 = vm.addr(2);
     address public player2 = vm.addr(3);
+    address public arbiter = vm.addr(4);
+    address public relayer = vm.addr(5); // Server account that submits settlements
+    address public sessionKey = vm.addr(6); // Per-game key the players authorize to sign moves
+    
+    uint256 public constant SESSION_VALID_UNTIL = 2 hours;
+    
+    address public constant ENTRY_POINT = 0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789;
     
     // Private keys for test accounts (for signing)
     uint256 private ownerPrivateKey = 1;
     uint256 private player1PrivateKey = 2;
     uint256 private player2PrivateKey = 3;
+    uint256 private arbiterPrivateKey = 4;
+    
+    MockCUSD public cUSD;
     
     uint256 public constant WAGER_AMOUNT = 2.5 ether;
     
@@ -30,9 +50,60 @@ contract MiniChessEscrowTest is Test {
         vm.startPrank(owner);
         
         // Deploy paymaster contract with mock EntryPoint address
-        paymasterEscrow = new MiniChessEscrowPaymaster(address(0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789));
+        paymasterEscrow = new MiniChessEscrowPaymaster(ENTRY_POINT, arbiter);
         
         vm.stopPrank();
+        
+        // Put a mintable token where the escrow expects cUSD
+        vm.etch(paymasterEscrow.CUSD_TOKEN(), address(new MockCUSD()).code);
+        cUSD = MockCUSD(paymasterEscrow.CUSD_TOKEN());
+        
+        cUSD.mint(player1, 10 ether);
+        cUSD.mint(player2, 10 ether);
+        vm.prank(player1);
+        cUSD.approve(address(paymasterEscrow), type(uint256).max);
+        vm.prank(player2);
+        cUSD.approve(address(paymasterEscrow), type(uint256).max);
+    }
+    
+    function _sign(uint256 privateKey, bytes32 messageHash) internal pure returns (bytes memory) {
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(privateKey, MessageHashUtils.toEthSignedMessageHash(messageHash));
+        return abi.encodePacked(r, s, v);
+    }
+    
+    function _sessionSignature(uint256 privateKey, uint256 gameId) internal view returns (bytes memory) {
+        return _sign(privateKey, keccak256(abi.encodePacked(
+            "AUTHORIZE_SESSION", gameId, sessionKey, SESSION_VALID_UNTIL, block.chainid
+        )));
+    }
+    
+    function _endGameSignature(uint256 privateKey, uint256 gameId, address winner) internal view returns (bytes memory) {
+        return _sign(privateKey, keccak256(abi.encodePacked("END_GAME", gameId, winner, block.chainid)));
+    }
+    
+    function _drawSignature(uint256 privateKey, uint256 gameId) internal view returns (bytes memory) {
+        return _sign(privateKey, keccak256(abi.encodePacked("END_GAME_DRAW", gameId, block.chainid)));
+    }
+    
+    function _captureSignature(
+        uint256 privateKey,
+        uint256 gameId,
+        uint256 moveNumber,
+        address captor,
+        MiniChessEscrowPaymaster.PieceType pieceType
+    ) internal view returns (bytes memory) {
+        return _sign(privateKey, keccak256(abi.encodePacked(
+            "CAPTURE_PIECE", gameId, moveNumber, captor, uint256(pieceType), block.chainid
+        )));
+    }
+    
+    /// @dev Create game 1 as player1 and join it as player2
+    function _startGame() internal returns (uint256 gameId) {
+        vm.prank(player1);
+        gameId = paymasterEscrow.createGameWithSession(sessionKey, SESSION_VALID_UNTIL, _sessionSignature(player1PrivateKey, 1), player1);
+        
+        vm.prank(player2);
+        paymasterEscrow.joinGameWithSession(gameId, sessionKey, SESSION_VALID_UNTIL, _sessionSignature(player2PrivateKey, gameId), player2);
     }
     
     function testCreateGame() public {
@@ -43,13 +114,13 @@ contract MiniChessEscrowTest is Test {
         
         // Create game with session
         bytes32 sessionMessageHash = keccak256(abi.encodePacked(
-            "AUTHORIZE_SESSION", uint256(1), block.chainid
+            "AUTHORIZE_SESSION", uint256(1), sessionKey, SESSION_VALID_UNTIL, block.chainid
         ));
         bytes32 ethSignedMessageHash = MessageHashUtils.toEthSignedMessageHash(sessionMessageHash);
         (uint8 v, bytes32 r, bytes32 s) = vm.sign(player1PrivateKey, ethSignedMessageHash);
         bytes memory signature = abi.encodePacked(r, s, v);
         
-        paymasterEscrow.createGameWithSession(signature, player1);
+        paymasterEscrow.createGameWithSession(sessionKey, SESSION_VALID_UNTIL, signature, player1);
         
         // Verify game state
         (address p1, address p2, uint256 player1Balance, uint256 player2Balance, , , , ) = paymasterEscrow.getGame(1);
@@ -67,13 +138,13 @@ contract MiniChessEscrowTest is Test {
         vm.deal(player1, 10 ether);
         
         bytes32 sessionMessageHash = keccak256(abi.encodePacked(
-            "AUTHORIZE_SESSION", uint256(1), block.chainid
+            "AUTHORIZE_SESSION", uint256(1), sessionKey, SESSION_VALID_UNTIL, block.chainid
         ));
         bytes32 ethSignedMessageHash = MessageHashUtils.toEthSignedMessageHash(sessionMessageHash);
         (uint8 v, bytes32 r, bytes32 s) = vm.sign(player1PrivateKey, ethSignedMessageHash);
         bytes memory signature = abi.encodePacked(r, s, v);
         
-        paymasterEscrow.createGameWithSession(signature, player1);
+        paymasterEscrow.createGameWithSession(sessionKey, SESSION_VALID_UNTIL, signature, player1);
         vm.stopPrank();
         
         // Join game
@@ -81,13 +152,13 @@ contract MiniChessEscrowTest is Test {
         vm.deal(player2, 10 ether);
         
         bytes32 joinSessionHash = keccak256(abi.encodePacked(
-            "AUTHORIZE_SESSION", uint256(1), block.chainid
+            "AUTHORIZE_SESSION", uint256(1), sessionKey, SESSION_VALID_UNTIL, block.chainid
         ));
         bytes32 ethSignedJoinMessageHash = MessageHashUtils.toEthSignedMessageHash(joinSessionHash);
         (uint8 v2, bytes32 r2, bytes32 s2) = vm.sign(player2PrivateKey, ethSignedJoinMessageHash);
         bytes memory joinSignature = abi.encodePacked(r2, s2, v2);
         
-        paymasterEscrow.joinGameWithSession(1, joinSignature, player2);
+        paymasterEscrow.joinGameWithSession(1, sessionKey, SESSION_VALID_UNTIL, joinSignature, player2);
         
         // Verify game state
         (address p1, address p2, uint256 player1Balance, uint256 player2Balance, , , , ) = paymasterEscrow.getGame(1);
@@ -98,4 +169,227 @@ contract MiniChessEscrowTest is Test {
         
         vm.stopPrank();
     }
-}
\ No newline at end of file
+    
+    function testJoinGameRejectsSignatureForAnotherSessionKey() public {
+        vm.prank(player1);
+        uint256 gameId = paymasterEscrow.createGameWithSession(sessionKey, SESSION_VALID_UNTIL, _sessionSignature(player1PrivateKey, 1), player1);
+        
+        // The signature names the session key, so it cannot authorize a different one
+        vm.prank(player2);
+        vm.expectRevert(bytes("Invalid session signature"));
+        paymasterEscrow.joinGameWithSession(gameId, relayer, SESSION_VALID_UNTIL, _sessionSignature(player2PrivateKey, gameId), player2);
+    }
+    
+    function testCaptureSubmittedByRelayer() public {
+        uint256 gameId = _startGame();
+        
+        vm.prank(relayer);
+        paymasterEscrow.capturePiecePaymaster(
+            gameId, 4, player2, MiniChessEscrowPaymaster.PieceType.QUEEN,
+            _captureSignature(arbiterPrivateKey, gameId, 4, player2, MiniChessEscrowPaymaster.PieceType.QUEEN)
+        );
+        
+        (, , uint256 player1Balance, uint256 player2Balance, , , , ) = paymasterEscrow.getGame(gameId);
+        assertEq(player1Balance, 2 ether);
+        assertEq(player2Balance, 3 ether);
+    }
+    
+    function testCaptureRejectsPlayerSignature() public {
+        uint256 gameId = _startGame();
+        
+        // A player cannot credit themselves a capture they did not make on the board
+        vm.prank(player1);
+        vm.expectRevert(bytes("Invalid arbiter signature"));
+        paymasterEscrow.capturePiecePaymaster(
+            gameId, 3, player1, MiniChessEscrowPaymaster.PieceType.QUEEN,
+            _captureSignature(player1PrivateKey, gameId, 3, player1, MiniChessEscrowPaymaster.PieceType.QUEEN)
+        );
+    }
+    
+    function testCaptureRejectsSignatureForAnotherMove() public {
+        uint256 gameId = _startGame();
+        
+        vm.prank(relayer);
+        vm.expectRevert(bytes("Invalid arbiter signature"));
+        paymasterEscrow.capturePiecePaymaster(
+            gameId, 7, player1, MiniChessEscrowPaymaster.PieceType.QUEEN,
+            _captureSignature(arbiterPrivateKey, gameId, 3, player1, MiniChessEscrowPaymaster.PieceType.QUEEN)
+        );
+    }
+    
+    function testCaptureCannotBePaidTwice() public {
+        uint256 gameId = _startGame();
+        bytes memory signature = _captureSignature(arbiterPrivateKey, gameId, 3, player1, MiniChessEscrowPaymaster.PieceType.PAWN);
+        
+        vm.prank(relayer);
+        paymasterEscrow.capturePiecePaymaster(gameId, 3, player1, MiniChessEscrowPaymaster.PieceType.PAWN, signature);
+        
+        // Resubmitting the same signature, in this block or a later one, pays nothing
+        vm.prank(relayer);
+        vm.expectRevert(bytes("Already processed"));
+        paymasterEscrow.capturePiecePaymaster(gameId, 3, player1, MiniChessEscrowPaymaster.PieceType.PAWN, signature);
+    }
+    
+    function testEndGameSubmittedByRelayer() public {
+        uint256 gameId = _startGame();
+        
+        vm.prank(relayer);
+        paymasterEscrow.endGame(gameId, player2, _endGameSignature(arbiterPrivateKey, gameId, player2));
+        
+        (, , , , MiniChessEscrowPaymaster.GameStatus status, address winner, , ) = paymasterEscrow.getGame(gameId);
+        assertEq(uint256(status), uint256(MiniChessEscrowPaymaster.GameStatus.FINISHED));
+        assertEq(winner, player2);
+        
+        (uint256 gamesPlayed, uint256 gamesWon, , , , ) = paymasterEscrow.getPlayerStats(player2);
+        assertEq(gamesPlayed, 1);
+        assertEq(gamesWon, 1);
+        (, , uint256 gamesLost, , , ) = paymasterEscrow.getPlayerStats(player1);
+        assertEq(gamesLost, 1);
+        
+        // Balances go to the players, not to the relayer that sent the transaction
+        assertEq(cUSD.balanceOf(player1), 10 ether);
+        assertEq(cUSD.balanceOf(player2), 10 ether);
+        assertEq(cUSD.balanceOf(relayer), 0);
+    }
+    
+    function testEndGameRejectsPlayerSignature() public {
+        uint256 gameId = _startGame();
+        
+        // A player cannot declare themselves the winner
+        vm.prank(player1);
+        vm.expectRevert(bytes("Invalid arbiter signature"));
+        paymasterEscrow.endGame(gameId, player1, _endGameSignature(player1PrivateKey, gameId, player1));
+    }
+    
+    function testEndGameRejectsSignatureForTheOtherWinner() public {
+        uint256 gameId = _startGame();
+        
+        // The arbiter's signature names the winner, so it cannot be reused for the loser
+        bytes memory player2Wins = _endGameSignature(arbiterPrivateKey, gameId, player2);
+        vm.prank(relayer);
+        vm.expectRevert(bytes("Invalid arbiter signature"));
+        paymasterEscrow.endGame(gameId, player1, player2Wins);
+    }
+    
+    function testEndGameRejectsSignatureForAnotherGame() public {
+        uint256 gameId = _startGame();
+        
+        vm.prank(relayer);
+        vm.expectRevert(bytes("Invalid arbiter signature"));
+        paymasterEscrow.endGame(gameId, player2, _endGameSignature(arbiterPrivateKey, gameId + 1, player2));
+    }
+    
+    function testEndGameRejectsNonPlayerWinner() public {
+        uint256 gameId = _startGame();
+        
+        vm.prank(relayer);
+        vm.expectRevert(bytes("Invalid winner"));
+        paymasterEscrow.endGame(gameId, relayer, _endGameSignature(arbiterPrivateKey, gameId, relayer));
+    }
+    
+    function testEndGameCannotSettleTwice() public {
+        uint256 gameId = _startGame();
+        bytes memory signature = _endGameSignature(arbiterPrivateKey, gameId, player1);
+        
+        vm.prank(relayer);
+        paymasterEscrow.endGame(gameId, player1, signature);
+        
+        vm.prank(relayer);
+        vm.expectRevert(bytes("Game not active"));
+        paymasterEscrow.endGame(gameId, player1, signature);
+    }
+    
+    function testEndGameDrawSubmittedByRelayer() public {
+        uint256 gameId = _startGame();
+        
+        vm.prank(relayer);
+        paymasterEscrow.endGameDraw(gameId, _drawSignature(arbiterPrivateKey, gameId));
+        
+        (, , uint256 player1Balance, uint256 player2Balance, MiniChessEscrowPaymaster.GameStatus status, address winner, , ) = paymasterEscrow.getGame(gameId);
+        assertEq(uint256(status), uint256(MiniChessEscrowPaymaster.GameStatus.FINISHED));
+        assertEq(winner, address(0));
+        assertEq(player1Balance, 0);
+        assertEq(player2Balance, 0);
+        
+        // Both escrows are returned in full
+        assertEq(cUSD.balanceOf(player1), 10 ether);
+        assertEq(cUSD.balanceOf(player2), 10 ether);
+        assertEq(cUSD.balanceOf(relayer), 0);
+    }
+    
+    function testEndGameDrawCountsDrawsSeparately() public {
+        uint256 gameId = _startGame();
+        
+        vm.prank(relayer);
+        paymasterEscrow.endGameDraw(gameId, _drawSignature(arbiterPrivateKey, gameId));
+        
+        (uint256 gamesPlayed, uint256 gamesWon, uint256 gamesLost, uint256 totalEarned, uint256 totalLost, uint256 winRate) =
+            paymasterEscrow.getPlayerStats(player1);
+        assertEq(gamesPlayed, 1);
+        assertEq(gamesWon, 0);
+        assertEq(gamesLost, 0);
+        assertEq(totalEarned, 0);
+        assertEq(totalLost, 0);
+        assertEq(winRate, 0);
+        
+        assertEq(paymasterEscrow.getPlayerDraws(player1), 1);
+        assertEq(paymasterEscrow.getPlayerDraws(player2), 1);
+        assertEq(paymasterEscrow.getPlayerGameCount(player1), 1);
+        assertEq(paymasterEscrow.getPlayerGameCount(player2), 1);
+    }
+    
+    function testEndGameDrawKeepsCaptureBalances() public {
+        uint256 gameId = _startGame();
+        
+        // player1 takes a queen before the draw
+        bytes memory captureSignature = _captureSignature(arbiterPrivateKey, gameId, 5, player1, MiniChessEscrowPaymaster.PieceType.QUEEN);
+        vm.prank(relayer);
+        paymasterEscrow.capturePiecePaymaster(gameId, 5, player1, MiniChessEscrowPaymaster.PieceType.QUEEN, captureSignature);
+        
+        vm.prank(relayer);
+        paymasterEscrow.endGameDraw(gameId, _drawSignature(arbiterPrivateKey, gameId));
+        
+        assertEq(cUSD.balanceOf(player1), 10.5 ether);
+        assertEq(cUSD.balanceOf(player2), 9.5 ether);
+        
+        (, , , uint256 player1Earned, , ) = paymasterEscrow.getPlayerStats(player1);
+        (, , , , uint256 player2Lost, ) = paymasterEscrow.getPlayerStats(player2);
+        assertEq(player1Earned, 0.5 ether);
+        assertEq(player2Lost, 0.5 ether);
+    }
+    
+    function testEndGameDrawRejectsPlayerSignature() public {
+        uint256 gameId = _startGame();
+        
+        // A losing player cannot sign their own way out of the game
+        vm.prank(player1);
+        vm.expectRevert(bytes("Invalid arbiter signature"));
+        paymasterEscrow.endGameDraw(gameId, _drawSignature(player1PrivateKey, gameId));
+    }
+    
+    function testEndGameDrawRejectsSignatureForAnotherGame() public {
+        uint256 gameId = _startGame();
+        
+        vm.prank(relayer);
+        vm.expectRevert(bytes("Invalid arbiter signature"));
+        paymasterEscrow.endGameDraw(gameId, _drawSignature(arbiterPrivateKey, gameId + 1));
+    }
+    
+    function testEndGameDrawRejectsRelayerWithoutArbiterSignature() public {
+        uint256 gameId = _startGame();
+        
+        // Submitting is open to anyone; only the arbiter's signature settles
+        vm.prank(relayer);
+        vm.expectRevert(bytes("Invalid arbiter signature"));
+        paymasterEscrow.endGameDraw(gameId, _drawSignature(5, gameId));
+    }
+    
+    function testEndGameDrawRequiresActiveGame() public {
+        vm.prank(player1);
+        uint256 gameId = paymasterEscrow.createGameWithSession(sessionKey, SESSION_VALID_UNTIL, _sessionSignature(player1PrivateKey, 1), player1);
+        
+        vm.prank(relayer);
+        vm.expectRevert(bytes("Game not active"));
+        paymasterEscrow.endGameDraw(gameId, _drawSignature(arbiterPrivateKey, gameId));
+    }
+}
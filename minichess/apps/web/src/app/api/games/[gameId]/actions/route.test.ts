@@ -0,0 +1,128 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { privateKeyToAccount } from 'viem/accounts';
+import { GAME_STATUS, readEscrowGame } from '@/lib/escrow-game';
+import { buildGameActionMessageHash, buildSessionMessageHash } from '@/lib/move-signature';
+import { getMoveStore } from '@/lib/move-store';
+import { DEFAULT_CHAIN_ID } from '@/lib/networks';
+import { POST } from './route';
+
+vi.mock('@/lib/escrow-game', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/escrow-game')>(),
+  readEscrowGame: vi.fn()
+}));
+
+const WHITE = privateKeyToAccount(`0x${'1'.repeat(64)}`);
+const BLACK = privateKeyToAccount(`0x${'2'.repeat(64)}`);
+const SESSION_KEY = privateKeyToAccount(`0x${'3'.repeat(64)}`);
+
+// Each test acts in a fresh game so the shared store starts empty
+let gameId = 4000;
+
+beforeEach(() => {
+  gameId++;
+  vi.clearAllMocks();
+  vi.mocked(readEscrowGame).mockResolvedValue({
+    player1: WHITE.address,
+    player2: BLACK.address,
+    player1Balance: 0n,
+    player2Balance: 0n,
+    status: GAME_STATUS.ACTIVE,
+    winner: '0x0000000000000000000000000000000000000000',
+    createdAt: 0n,
+    lastMoveAt: 0n
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+function signAction(account: typeof WHITE, action: string, actionNumber = 1) {
+  return account.signMessage({
+    message: { raw: buildGameActionMessageHash({ gameId, action, actionNumber, chainId: DEFAULT_CHAIN_ID }) }
+  });
+}
+
+// WHITE's AUTHORIZE_SESSION signature naming SESSION_KEY
+async function authorizeSessionKey(validUntil: number) {
+  const grant = { sessionKey: SESSION_KEY.address, validUntil };
+  const signature = await WHITE.signMessage({ message: { raw: buildSessionMessageHash(gameId, grant, DEFAULT_CHAIN_ID) } });
+  return { ...grant, kind: 'session', signature };
+}
+
+function post(body: unknown, query = '') {
+  const request = new NextRequest(`http://localhost/api/games/${gameId}/actions${query}`, {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+  return POST(request, { params: { gameId: String(gameId) } });
+}
+
+describe('POST /api/games/[gameId]/actions', () => {
+  const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+  it('stores an action signed by the player', async () => {
+    const response = await post({ action: 'resign', player: WHITE.address, signature: await signAction(WHITE, 'resign'), expectedActionNumber: 1 });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, action: { action: 'resign', actionNumber: 1 } });
+    expect(await getMoveStore().listActions(gameId)).toHaveLength(1);
+  });
+
+  it('stores an action signed by the session key the player authorized', async () => {
+    const response = await post({
+      action: 'offer_draw',
+      player: WHITE.address,
+      signature: await signAction(SESSION_KEY, 'offer_draw'),
+      sessionKey: await authorizeSessionKey(inAnHour()),
+      expectedActionNumber: 1
+    });
+
+    expect(response.status).toBe(200);
+    expect((await getMoveStore().listActions(gameId))[0].sessionKey?.sessionKey).toBe(SESSION_KEY.address);
+  });
+
+  it('rejects an action signed by someone other than the player', async () => {
+    const response = await post({ action: 'resign', player: WHITE.address, signature: await signAction(BLACK, 'resign'), expectedActionNumber: 1 });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    expect(await getMoveStore().listActions(gameId)).toEqual([]);
+  });
+
+  it('rejects a signature for another action slot', async () => {
+    const response = await post({ action: 'resign', player: WHITE.address, signature: await signAction(WHITE, 'resign', 2), expectedActionNumber: 1 });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a session key that has expired or is not the one authorized', async () => {
+    const expired = await post({
+      action: 'resign',
+      player: WHITE.address,
+      signature: await signAction(SESSION_KEY, 'resign'),
+      sessionKey: await authorizeSessionKey(Math.floor(Date.now() / 1000) - 1),
+      expectedActionNumber: 1
+    });
+    expect(expired.status).toBe(401);
+
+    const otherKey = await post({
+      action: 'resign',
+      player: WHITE.address,
+      signature: await signAction(BLACK, 'resign'),
+      sessionKey: await authorizeSessionKey(inAnHour()),
+      expectedActionNumber: 1
+    });
+    expect(otherKey.status).toBe(401);
+
+    expect(await getMoveStore().listActions(gameId)).toEqual([]);
+  });
+
+  it('rejects a chain this deployment does not support', async () => {
+    const body = { action: 'resign', player: WHITE.address, signature: await signAction(WHITE, 'resign'), expectedActionNumber: 1 };
+    const response = await post(body, '?chainId=1');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'UNSUPPORTED_CHAIN' });
+    expect(readEscrowGame).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GAME_STATUS, readEscrowGame } from '@/lib/escrow-game';
+import { GAME_ACTION_TYPES, GameAction, getGameActionState, validateGameAction } from '@/lib/game-actions';
+import { recoverGameActionSigner, resolveSessionSigner } from '@/lib/move-signature';
+import { getMoveStore } from '@/lib/move-store';
+import { parseChainIdParam } from '@/lib/networks';
+
+/**
+ * GET /api/games/[gameId]/actions?chainId=
+ * Resignations and draw offers for a game, with the state they add up to
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const gameId = params.gameId;
+
+    if (!gameId || isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    const store = getMoveStore(chainId);
+    const [actions, moveCount, onChainGame] = await Promise.all([
+      store.listActions(gameId),
+      store.count(gameId),
+      readEscrowGame(Number(gameId), chainId)
+    ]);
+
+    return NextResponse.json({
+      gameId,
+      actions,
+      count: actions.length,
+      state: getGameActionState(actions, moveCount, onChainGame)
+    });
+  } catch (error) {
+    console.error('Error fetching game actions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch game actions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[gameId]/actions?chainId=
+ * Submit resign, offer_draw, accept_draw or decline_draw for an active game
+ * Each action must carry the player's GAME_ACTION signature (401 otherwise),
+ * or one from a session key with the player's AUTHORIZE_SESSION authorization,
+ * and the expectedActionNumber it was made against; a stale number returns
+ * 409 with the current action list. Actions are delivered to both players
+ * over the game stream. A resignation or accepted draw ends the game on the
+ * board; the settle route then confirms the result for endGame/endGameDraw
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const gameId = params.gameId;
+
+    if (!gameId || isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, player, signature, sessionKey, expectedActionNumber } = body;
+
+    if (!action || !player || !signature || !Number.isInteger(expectedActionNumber)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: action, player, signature, expectedActionNumber' },
+        { status: 400 }
+      );
+    }
+
+    if (!GAME_ACTION_TYPES.includes(action)) {
+      return NextResponse.json(
+        { error: `Unknown action: ${action}`, code: 'UNKNOWN_ACTION' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    const onChainGame = await readEscrowGame(Number(gameId), chainId);
+    if (onChainGame.status !== GAME_STATUS.ACTIVE) {
+      return NextResponse.json(
+        { error: 'Game is not active', code: 'GAME_NOT_ACTIVE', status: onChainGame.status },
+        { status: 409 }
+      );
+    }
+
+    const store = getMoveStore(chainId);
+    const [moves, actions] = await Promise.all([
+      store.list(gameId),
+      store.listActions(gameId)
+    ]);
+
+    if (expectedActionNumber !== actions.length + 1) {
+      return staleActionResponse(gameId, expectedActionNumber, actions);
+    }
+
+    const validation = validateGameAction(actions, moves, { action, player }, onChainGame);
+
+    if (!validation.ok) {
+      console.warn(`[Game ${gameId}] Rejected ${action} by ${player.slice(0, 6)}...: ${validation.code}`);
+      return NextResponse.json(
+        { error: validation.error, code: validation.code },
+        { status: validation.status }
+      );
+    }
+
+    let signer: string;
+    try {
+      const actionSigner = await recoverGameActionSigner({
+        gameId: Number(gameId),
+        action,
+        actionNumber: actions.length + 1,
+        chainId
+      }, signature);
+      signer = await resolveSessionSigner(actionSigner, sessionKey, Number(gameId), chainId);
+    } catch {
+      signer = '';
+    }
+
+    if (signer.toLowerCase() !== player.toLowerCase()) {
+      console.warn(`[Game ${gameId}] Invalid signature for ${action} by ${player.slice(0, 6)}...`);
+      return NextResponse.json(
+        { error: 'Invalid action signature', code: 'INVALID_SIGNATURE' },
+        { status: 401 }
+      );
+    }
+
+    const newAction: GameAction = {
+      action,
+      player,
+      actionNumber: actions.length + 1,
+      moveNumber: moves.length,
+      timestamp: Date.now(),
+      signature,
+      ...(sessionKey && { sessionKey })
+    };
+
+    // Append only if no other action landed since we read the log
+    const { appended } = await store.appendAction(gameId, actions.length, newAction);
+    if (!appended) {
+      const latest = await store.listActions(gameId);
+      return staleActionResponse(gameId, expectedActionNumber, latest);
+    }
+
+    console.log(`[Game ${gameId}] Action ${newAction.actionNumber}: ${action} by ${player.slice(0, 6)}... after move ${moves.length}`);
+
+    return NextResponse.json({
+      success: true,
+      action: newAction,
+      state: getGameActionState([...actions, newAction], moves.length, onChainGame)
+    });
+  } catch (error) {
+    console.error('Error submitting game action:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit game action' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 409 for an action made against an outdated action log
+ * Includes the current actions so the client can resync
+ */
+function staleActionResponse(gameId: string, expectedActionNumber: number, actions: GameAction[]) {
+  console.warn(`[Game ${gameId}] Stale action: expected ${expectedActionNumber}, next is ${actions.length + 1}`);
+  return NextResponse.json(
+    {
+      error: 'Game actions changed, please resync',
+      code: 'STALE_ACTION_NUMBER',
+      expectedActionNumber,
+      nextActionNumber: actions.length + 1,
+      actions
+    },
+    { status: 409 }
+  );
+}
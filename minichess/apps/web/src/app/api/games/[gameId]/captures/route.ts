@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCaptures, relayPendingCaptures } from '@/lib/capture-relay';
+import { readEscrowGame } from '@/lib/escrow-game';
+import { getMoveStore } from '@/lib/move-store';
+import { parseChainIdParam } from '@/lib/networks';
+
+/**
+ * GET /api/games/[gameId]/captures?chainId=
+ * Captures in the stored move log and their payout transactions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const gameId = params.gameId;
+
+    if (!gameId || isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    const [moves, onChainGame] = await Promise.all([
+      getMoveStore(chainId).list(gameId),
+      readEscrowGame(Number(gameId), chainId)
+    ]);
+
+    const captures = findCaptures(moves, onChainGame);
+
+    return NextResponse.json({ gameId, captures, count: captures.length });
+  } catch (error) {
+    console.error('Error fetching captures:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch captures' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[gameId]/captures?chainId=
+ * Pay out any capture in the move log that has not been paid yet
+ * The server derives captor and piece from the validated moves and submits
+ * capturePiecePaymaster itself, so the request carries no body. Safe to call
+ * repeatedly; captures already paid or being paid are skipped
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const gameId = params.gameId;
+
+    if (!gameId || isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    const captures = await relayPendingCaptures(Number(gameId), chainId);
+
+    return NextResponse.json({ gameId, captures, count: captures.length });
+  } catch (error) {
+    console.error('Error relaying captures:', error);
+    return NextResponse.json(
+      { error: 'Failed to relay captures' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { privateKeyToAccount } from 'viem/accounts';
+import { GAME_STATUS, readEscrowGame } from '@/lib/escrow-game';
+import { buildMoveMessageHash } from '@/lib/move-signature';
+import { getMoveStore } from '@/lib/move-store';
+import { DEFAULT_CHAIN_ID } from '@/lib/networks';
+import { DELETE, GET, POST } from './route';
+
+vi.mock('@/lib/escrow-game', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/escrow-game')>(),
+  readEscrowGame: vi.fn()
+}));
+
+vi.mock('@/lib/capture-relay', () => ({
+  relayPendingCaptures: vi.fn(() => Promise.resolve())
+}));
+
+const WHITE = privateKeyToAccount(`0x${'1'.repeat(64)}`);
+const BLACK = privateKeyToAccount(`0x${'2'.repeat(64)}`);
+
+// Each test plays in a fresh game so the shared store starts empty
+let gameId = 1000;
+
+beforeEach(() => {
+  gameId++;
+  vi.clearAllMocks();
+  vi.mocked(readEscrowGame).mockResolvedValue({
+    player1: WHITE.address,
+    player2: BLACK.address,
+    player1Balance: 0n,
+    player2Balance: 0n,
+    status: GAME_STATUS.ACTIVE,
+    winner: '0x0000000000000000000000000000000000000000',
+    createdAt: 0n,
+    lastMoveAt: 0n
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+async function signedMove(account: typeof WHITE, moveNumber: number, from: string, to: string) {
+  const signature = await account.signMessage({
+    message: { raw: buildMoveMessageHash({ gameId, moveNumber, from, to, chainId: DEFAULT_CHAIN_ID }) }
+  });
+  return { from, to, player: account.address, signature, expectedMoveNumber: moveNumber };
+}
+
+function post(body: unknown) {
+  const request = new NextRequest(`http://localhost/api/games/${gameId}/moves`, {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+  return POST(request, { params: { gameId: String(gameId) } });
+}
+
+describe('POST /api/games/[gameId]/moves', () => {
+  it('stores a signed legal move', async () => {
+    const response = await post(await signedMove(WHITE, 1, 'e2', 'e4'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, totalMoves: 1, move: { from: 'e2', to: 'e4', moveNumber: 1 } });
+    expect(await getMoveStore().count(gameId)).toBe(1);
+  });
+
+  it('records the join time with the first move', async () => {
+    vi.mocked(readEscrowGame).mockResolvedValue({ ...await readEscrowGame(gameId), lastMoveAt: 1700000000n });
+
+    await post(await signedMove(WHITE, 1, 'e2', 'e4'));
+
+    expect(await getMoveStore().getMetadata(gameId)).toEqual({ joinedAt: '1700000000' });
+  });
+
+  it('rejects a malformed body before reading it', async () => {
+    const move = await signedMove(WHITE, 1, 'e2', 'e4');
+
+    for (const body of ['not json', null, { ...move, player: 7 }, { ...move, player: { slice: 1 } }, { ...move, expectedMoveNumber: '1' }]) {
+      const response = await post(body);
+      expect(response.status).toBe(400);
+    }
+    expect(readEscrowGame).not.toHaveBeenCalled();
+    expect(await getMoveStore().count(gameId)).toBe(0);
+  });
+
+  it('rejects a move signed by someone else', async () => {
+    const forged = { ...await signedMove(BLACK, 1, 'e2', 'e4'), player: WHITE.address };
+
+    const response = await post(forged);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+  });
+
+  it('rejects a move out of turn', async () => {
+    const response = await post(await signedMove(BLACK, 1, 'e7', 'e5'));
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ code: 'NOT_YOUR_TURN' });
+  });
+
+  it('rejects an illegal move', async () => {
+    const response = await post(await signedMove(WHITE, 1, 'e2', 'e5'));
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'ILLEGAL_MOVE' });
+  });
+
+  it('returns the current moves for a stale move number', async () => {
+    await post(await signedMove(WHITE, 1, 'e2', 'e4'));
+
+    const response = await post(await signedMove(WHITE, 1, 'd2', 'd4'));
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ code: 'STALE_MOVE_NUMBER', nextMoveNumber: 2, moves: [{ from: 'e2', to: 'e4' }] });
+  });
+
+  it('rejects moves once the game is no longer active on-chain', async () => {
+    vi.mocked(readEscrowGame).mockResolvedValueOnce({ ...await readEscrowGame(gameId), status: GAME_STATUS.FINISHED });
+
+    const response = await post(await signedMove(WHITE, 1, 'e2', 'e4'));
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ code: 'GAME_NOT_ACTIVE' });
+  });
+});
+
+describe('GET /api/games/[gameId]/moves', () => {
+  it('lists the stored moves', async () => {
+    await post(await signedMove(WHITE, 1, 'e2', 'e4'));
+    await post(await signedMove(BLACK, 2, 'e7', 'e5'));
+
+    const response = await GET(new NextRequest(`http://localhost/api/games/${gameId}/moves`), { params: { gameId: String(gameId) } });
+
+    expect(await response.json()).toMatchObject({ count: 2, moves: [{ moveNumber: 1 }, { moveNumber: 2 }] });
+  });
+});
+
+describe('DELETE /api/games/[gameId]/moves', () => {
+  const remove = (headers: Record<string, string>) => DELETE(
+    new NextRequest(`http://localhost/api/games/${gameId}/moves`, { method: 'DELETE', headers }),
+    { params: { gameId: String(gameId) } }
+  );
+
+  it('clears the moves with the admin token and keeps an audit entry', async () => {
+    vi.stubEnv('MOVES_ADMIN_TOKEN', 'secret');
+    await post(await signedMove(WHITE, 1, 'e2', 'e4'));
+
+    const response = await remove({ Authorization: 'Bearer secret' });
+
+    expect(response.status).toBe(200);
+    expect(await getMoveStore().count(gameId)).toBe(0);
+    expect(await getMoveStore().listAuditLog(gameId)).toMatchObject([
+      { action: 'clear_moves', actor: 'admin', details: { method: 'admin_token', clearedMoves: 1 } }
+    ]);
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses a request without a token or signature', async () => {
+    await post(await signedMove(WHITE, 1, 'e2', 'e4'));
+
+    const response = await remove({ Authorization: 'Bearer wrong' });
+
+    expect(response.status).toBe(401);
+    expect(await getMoveStore().count(gameId)).toBe(1);
+  });
+});
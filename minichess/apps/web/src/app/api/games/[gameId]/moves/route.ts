@@ -1,26 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Redis } from '@upstash/redis';
-
-// Initialize Redis from environment variables
-// Supports both Vercel KV (KV_REST_API_URL/KV_REST_API_TOKEN)
-// and Upstash (UPSTASH_REDIS_REST_URL/UPSTASH_REDIS_REST_TOKEN)
-const redis = new Redis({
-  url: process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL || '',
-  token: process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN || '',
-});
-
-interface GameMove {
-  from: string;
-  to: string;
-  promotion?: string;
-  player: string;
-  timestamp: number;
-  moveNumber: number;
-}
+import { timingSafeEqual } from 'crypto';
+import { GameMove, parseMoveSubmission, validateMove } from '@/lib/game-moves';
+import { getGameActionState } from '@/lib/game-actions';
+import { GAME_STATUS, readEscrowGame } from '@/lib/escrow-game';
+import { recoverMoveSigner, recoverClearMovesSigner, resolveSessionSigner } from '@/lib/move-signature';
+import { getMoveStore } from '@/lib/move-store';
+import { relayPendingCaptures } from '@/lib/capture-relay';
+import { parseChainIdParam } from '@/lib/networks';
+
+// How long a signed CLEAR_MOVES request stays usable, and the clock skew allowed
+const CLEAR_MOVES_SIGNATURE_TTL = 5 * 60; // seconds
+const CLEAR_MOVES_CLOCK_SKEW = 60; // seconds
 
 /**
- * GET /api/games/[gameId]/moves
- * Retrieve all moves for a specific game from Upstash Redis
+ * GET /api/games/[gameId]/moves?chainId=
+ * Retrieve all moves for a specific game from the move store
  */
 export async function GET(
   request: NextRequest,
@@ -36,15 +30,22 @@ export async function GET(
       );
     }
 
-    // Fetch moves from Redis
-    // lrange returns a list of items. Upstash Redis automatically parses JSON if stored as such.
-    const moves = await redis.lrange(`game:${gameId}:moves`, 0, -1) || [];
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    // Fetch moves from the configured move store
+    const moves = await getMoveStore(chainId).list(gameId);
     
     return NextResponse.json({
       gameId,
       moves,
       count: moves.length,
-      lastUpdate: moves.length > 0 ? (moves[moves.length - 1] as any).timestamp : null
+      lastUpdate: moves.length > 0 ? moves[moves.length - 1].timestamp : null
     });
   } catch (error) {
     console.error('Error fetching moves:', error);
@@ -56,8 +57,14 @@ export async function GET(
 }
 
 /**
- * POST /api/games/[gameId]/moves
- * Submit a new move for a specific game to Upstash Redis
+ * POST /api/games/[gameId]/moves?chainId=
+ * Submit a new move for a specific game to the move store
+ * The move is replayed against the stored history and rejected if it is
+ * illegal (422), out of turn (409) or not from an on-chain player (403)
+ * Each move must carry the player's SUBMIT_MOVE signature (401 otherwise),
+ * or one from a session key with the player's AUTHORIZE_SESSION authorization,
+ * and the expectedMoveNumber it was made against; a stale number returns
+ * 409 with the current move list so the client can resync
  */
 export async function POST(
   request: NextRequest,
@@ -73,35 +80,132 @@ export async function POST(
       );
     }
 
-    const body = await request.json();
-    const { from, to, promotion, player } = body;
+    if (isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
 
-    // Validate required fields
-    if (!from || !to || !player) {
+    const body = await request.json().catch(() => null);
+    const parsed = parseMoveSubmission(body);
+    if (!parsed.ok) {
       return NextResponse.json(
-        { error: 'Missing required fields: from, to, player' },
+        { error: parsed.error },
         { status: 400 }
       );
     }
+    const { from, to, promotion, player, signature, sessionKey, expectedMoveNumber } = parsed.submission;
+
+    // Check the game is live on-chain and resolve which address plays which color
+    const onChainGame = await readEscrowGame(Number(gameId), chainId);
+    if (onChainGame.status !== GAME_STATUS.ACTIVE) {
+      return NextResponse.json(
+        { error: 'Game is not active', code: 'GAME_NOT_ACTIVE', status: onChainGame.status },
+        { status: 409 }
+      );
+    }
 
-    // Get current count to determine move number
-    const currentCount = await redis.llen(`game:${gameId}:moves`);
+    // Replay the stored history and validate the submitted move against it
+    const store = getMoveStore(chainId);
+    const [history, actions] = await Promise.all([
+      store.list(gameId),
+      store.listActions(gameId)
+    ]);
+
+    // A resignation or agreed draw ends the game before it is settled on-chain
+    const actionState = getGameActionState(actions, history.length, onChainGame);
+    if (actionState.resignedBy || actionState.drawAgreed) {
+      return NextResponse.json(
+        { error: 'Game is already over', code: 'GAME_OVER', totalMoves: history.length },
+        { status: 409 }
+      );
+    }
+
+    if (expectedMoveNumber !== history.length + 1) {
+      return staleMoveResponse(gameId, expectedMoveNumber, history);
+    }
+
+    const validation = validateMove(history, { from, to, promotion, player }, onChainGame);
+
+    if (!validation.ok) {
+      console.warn(`[Game ${gameId}] Rejected move ${from} -> ${to} by ${player.slice(0, 6)}...: ${validation.code}`);
+      return NextResponse.json(
+        { error: validation.error, code: validation.code, totalMoves: history.length },
+        { status: validation.status }
+      );
+    }
+
+    const currentCount = history.length;
+
+    // The signature binds the move to this game, chain and move number,
+    // so it cannot be replayed at a later point in the game
+    let signer: string;
+    try {
+      const moveSigner = await recoverMoveSigner({
+        gameId: Number(gameId),
+        moveNumber: currentCount + 1,
+        from,
+        to,
+        promotion: validation.move.promotion,
+        chainId
+      }, signature);
+      signer = await resolveSessionSigner(moveSigner, sessionKey, Number(gameId), chainId);
+    } catch {
+      signer = '';
+    }
+
+    if (signer.toLowerCase() !== player.toLowerCase()) {
+      console.warn(`[Game ${gameId}] Invalid signature for move ${from} -> ${to} by ${player.slice(0, 6)}...`);
+      return NextResponse.json(
+        { error: 'Invalid move signature', code: 'INVALID_SIGNATURE', totalMoves: currentCount },
+        { status: 401 }
+      );
+    }
 
     // Create new move
     const newMove: GameMove = {
       from,
       to,
-      promotion,
+      promotion: validation.move.promotion,
       player,
       timestamp: Date.now(),
-      moveNumber: currentCount + 1
+      moveNumber: currentCount + 1,
+      signature,
+      ...(sessionKey && { sessionKey })
     };
 
-    // Add move to Redis
-    await redis.rpush(`game:${gameId}:moves`, newMove);
+    // Append only if no other move landed since we read the history
+    const { appended } = await store.append(gameId, currentCount, newMove);
+    if (!appended) {
+      const latest = await store.list(gameId);
+      return staleMoveResponse(gameId, expectedMoveNumber, latest);
+    }
 
     console.log(`[Game ${gameId}] Move ${newMove.moveNumber}: ${from} -> ${to} by ${player.slice(0, 6)}...`);
 
+    // lastMoveAt is still the join time here: captures, which also move it,
+    // only happen after the first move. The PGN export times move 1 from it
+    if (newMove.moveNumber === 1) {
+      await store.setMetadata(gameId, { joinedAt: onChainGame.lastMoveAt.toString() });
+    }
+
+    // Start paying out the capture without holding up the move; clients
+    // also poll the captures route in case this run is cut short
+    if (validation.move.captured) {
+      relayPendingCaptures(Number(gameId), chainId).catch(error =>
+        console.error(`[Game ${gameId}] Capture relay after move ${newMove.moveNumber} failed:`, error)
+      );
+    }
+
     return NextResponse.json({
       success: true,
       move: newMove,
@@ -117,8 +221,45 @@ export async function POST(
 }
 
 /**
- * DELETE /api/games/[gameId]/moves
- * Clear all moves for a game from Upstash Redis
+ * 409 for a move made against an outdated history
+ * Includes the current move list so the client can resync
+ */
+function staleMoveResponse(gameId: string, expectedMoveNumber: number, moves: GameMove[]) {
+  console.warn(`[Game ${gameId}] Stale move: expected ${expectedMoveNumber}, next is ${moves.length + 1}`);
+  return NextResponse.json(
+    {
+      error: 'Move history changed, please resync',
+      code: 'STALE_MOVE_NUMBER',
+      expectedMoveNumber,
+      nextMoveNumber: moves.length + 1,
+      moves
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * Compare a bearer token against MOVES_ADMIN_TOKEN in constant time
+ */
+function isAdminToken(authorization: string | null): boolean {
+  const adminToken = process.env.MOVES_ADMIN_TOKEN;
+  if (!adminToken || !authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const provided = Buffer.from(authorization.slice('Bearer '.length));
+  const expected = Buffer.from(adminToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * DELETE /api/games/[gameId]/moves?chainId=
+ * Clear the move and action logs for a game; metadata such as the settlement is kept
+ * Requires either `Authorization: Bearer <MOVES_ADMIN_TOKEN>` or a body of
+ * { player, signature, issuedAt } where a player signed CLEAR_MOVES for a game
+ * that is FINISHED or CANCELLED on-chain. issuedAt (unix seconds) must be recent
+ * and newer than any earlier clear, so a signature cannot be replayed.
+ * Every deletion is written to the audit log.
  */
 export async function DELETE(
   request: NextRequest,
@@ -134,7 +275,111 @@ export async function DELETE(
       );
     }
 
-    await redis.del(`game:${gameId}:moves`);
+    if (isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    let actor: string;
+    let method: 'admin_token' | 'player_signature';
+    let onChainStatus: number | undefined;
+    let issuedAt: number | undefined;
+    const store = getMoveStore(chainId);
+
+    if (isAdminToken(request.headers.get('authorization'))) {
+      actor = 'admin';
+      method = 'admin_token';
+    } else {
+      const body = await request.json().catch(() => ({}));
+      const { player, signature } = body;
+      const signedAt: number = body.issuedAt;
+
+      if (!player || !signature || !Number.isInteger(signedAt)) {
+        return NextResponse.json(
+          { error: 'Admin token or player signature with issuedAt required', code: 'UNAUTHORIZED' },
+          { status: 401 }
+        );
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      if (signedAt < now - CLEAR_MOVES_SIGNATURE_TTL || signedAt > now + CLEAR_MOVES_CLOCK_SKEW) {
+        return NextResponse.json(
+          { error: 'Signature has expired, sign a new request', code: 'SIGNATURE_EXPIRED' },
+          { status: 401 }
+        );
+      }
+
+      // Each clear must be signed after the previous one
+      const lastIssuedAt = Math.max(0, ...(await store.listAuditLog(gameId))
+        .filter(entry => entry.action === 'clear_moves')
+        .map(entry => Number(entry.details?.issuedAt) || 0));
+      if (signedAt <= lastIssuedAt) {
+        return NextResponse.json(
+          { error: 'Signature has already been used', code: 'SIGNATURE_REPLAYED' },
+          { status: 401 }
+        );
+      }
+
+      let signer: string;
+      try {
+        signer = await recoverClearMovesSigner(Number(gameId), signedAt, chainId, signature);
+      } catch {
+        signer = '';
+      }
+
+      if (signer.toLowerCase() !== String(player).toLowerCase()) {
+        return NextResponse.json(
+          { error: 'Invalid signature', code: 'INVALID_SIGNATURE' },
+          { status: 401 }
+        );
+      }
+
+      const onChainGame = await readEscrowGame(Number(gameId), chainId);
+      const isPlayer =
+        signer.toLowerCase() === onChainGame.player1.toLowerCase() ||
+        signer.toLowerCase() === onChainGame.player2.toLowerCase();
+
+      if (!isPlayer) {
+        return NextResponse.json(
+          { error: 'Address is not a player in this game', code: 'NOT_A_PLAYER' },
+          { status: 403 }
+        );
+      }
+
+      if (onChainGame.status !== GAME_STATUS.FINISHED && onChainGame.status !== GAME_STATUS.CANCELLED) {
+        return NextResponse.json(
+          { error: 'Moves can only be cleared once the game is finished or cancelled', code: 'GAME_IN_PROGRESS' },
+          { status: 409 }
+        );
+      }
+
+      actor = signer;
+      method = 'player_signature';
+      issuedAt = signedAt;
+      onChainStatus = onChainGame.status;
+    }
+
+    const clearedMoves = await store.count(gameId);
+    await store.clear(gameId);
+
+    await store.appendAuditLog(gameId, {
+      action: 'clear_moves',
+      actor,
+      timestamp: Date.now(),
+      details: { method, clearedMoves, onChainStatus, issuedAt }
+    });
+
+    console.log(`[Game ${gameId}] Cleared ${clearedMoves} moves (${method}, ${actor})`);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GAME_STATUS, readEscrowGame } from '@/lib/escrow-game';
+import { getMoveStore } from '@/lib/move-store';
+import { GET } from './route';
+
+vi.mock('@/lib/escrow-game', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/escrow-game')>(),
+  readEscrowGame: vi.fn()
+}));
+
+vi.mock('@/lib/minichess-client', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/minichess-client')>(),
+  getEscrowAmount: vi.fn(() => Promise.resolve(10n ** 18n))
+}));
+
+const WHITE = '0x1111111111111111111111111111111111111111';
+const BLACK = '0x2222222222222222222222222222222222222222';
+const JOINED_AT = 1_700_000_000; // unix seconds
+
+let gameId = 2000;
+
+const activeGame = {
+  player1: WHITE,
+  player2: BLACK,
+  player1Balance: 10n ** 18n,
+  player2Balance: 10n ** 18n,
+  status: GAME_STATUS.ACTIVE,
+  winner: '0x0000000000000000000000000000000000000000',
+  createdAt: BigInt(JOINED_AT - 600),
+  lastMoveAt: BigInt(JOINED_AT)
+} as const;
+
+beforeEach(() => {
+  gameId++;
+  vi.mocked(readEscrowGame).mockResolvedValue(activeGame);
+});
+
+// Store moves made the given number of seconds after the join
+async function play(moves: [from: string, to: string, player: string, secondsAfterJoin: number][]) {
+  const store = getMoveStore();
+  for (const [index, [from, to, player, seconds]] of moves.entries()) {
+    await store.append(gameId, index, { from, to, player, timestamp: (JOINED_AT + seconds) * 1000, moveNumber: index + 1 });
+  }
+}
+
+async function exportPgn() {
+  const response = await GET(new NextRequest(`http://localhost/api/games/${gameId}/pgn`), { params: { gameId: String(gameId) } });
+  return response.text();
+}
+
+describe('GET /api/games/[gameId]/pgn', () => {
+  it('adds %clk and %emt, with the clock restarting on captures', async () => {
+    await getMoveStore().setMetadata(gameId, { joinedAt: String(JOINED_AT) });
+    await play([
+      ['e2', 'e4', WHITE, 10],
+      ['d7', 'd5', BLACK, 70],
+      ['e4', 'd5', WHITE, 100],
+      ['d8', 'd5', BLACK, 400]
+    ]);
+
+    const pgn = await exportPgn();
+
+    expect(pgn).toContain('1. e4 {[%clk 0:29:50] [%emt 0:00:10]} d5 {[%clk 0:28:50] [%emt 0:01:00]}');
+    expect(pgn).toContain('2. exd5 {[%clk 0:28:20] [%emt 0:00:30]} Qxd5 {[%clk 0:25:00] [%emt 0:05:00]}');
+  });
+
+  it('times the first move from creation when the join time was not recorded', async () => {
+    await play([['e2', 'e4', WHITE, 10]]);
+
+    expect(await exportPgn()).toContain('1. e4 {[%clk 0:19:50] [%emt 0:10:10]}');
+  });
+
+  it('exports a resignation before it is settled', async () => {
+    await play([['e2', 'e4', WHITE, 10]]);
+    await getMoveStore().appendAction(gameId, 0, { action: 'resign', player: BLACK, actionNumber: 1, moveNumber: 1, timestamp: 0 });
+
+    expect(await exportPgn()).toContain('[Result "1-0"]');
+  });
+
+  it('exports an agreed draw and leaves a game in progress open', async () => {
+    await play([['e2', 'e4', WHITE, 10]]);
+    expect(await exportPgn()).toContain('[Result "*"]');
+
+    await getMoveStore().appendAction(gameId, 0, { action: 'offer_draw', player: WHITE, actionNumber: 1, moveNumber: 1, timestamp: 0 });
+    await getMoveStore().appendAction(gameId, 1, { action: 'accept_draw', player: BLACK, actionNumber: 2, moveNumber: 1, timestamp: 0 });
+    expect(await exportPgn()).toContain('[Result "1/2-1/2"]');
+  });
+
+  it('takes the result from the chain once the game is settled', async () => {
+    await play([['e2', 'e4', WHITE, 10]]);
+    vi.mocked(readEscrowGame).mockResolvedValue({ ...activeGame, status: GAME_STATUS.FINISHED, winner: BLACK });
+
+    expect(await exportPgn()).toContain('[Result "0-1"]');
+  });
+});
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Chess } from 'chess.js';
+import { formatEther } from 'viem';
+import { EscrowGame, GAME_STATUS, GAME_STATUS_NAMES, GAME_TIMEOUT_SECONDS, readEscrowGame } from '@/lib/escrow-game';
+import { getEscrowAmount } from '@/lib/minichess-client';
+import { getMoveStore } from '@/lib/move-store';
+import { parseChainIdParam } from '@/lib/networks';
+import { SettlementVerdict, getSettlementVerdict } from '@/lib/settlement-relay';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Format seconds as H:MM:SS for %clk and %emt comments
+ */
+function formatClock(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Format a date as YYYY.MM.DD (PGN date) and HH:MM:SS (PGN time) in UTC
+ */
+function formatPgnDate(date: Date) {
+  const iso = date.toISOString();
+  return {
+    date: iso.slice(0, 10).replace(/-/g, '.'),
+    time: iso.slice(11, 19)
+  };
+}
+
+/**
+ * PGN result tag from the on-chain winner once the game is settled, otherwise
+ * from the move and action logs, so a resignation shows before it is settled
+ */
+function resolveResult(onChainGame: EscrowGame, verdict: SettlementVerdict | null): string {
+  if (onChainGame.status === GAME_STATUS.FINISHED) {
+    // endGameDraw finishes a game without a winner
+    if (onChainGame.winner === ZERO_ADDRESS) return '1/2-1/2';
+    return onChainGame.winner.toLowerCase() === onChainGame.player1.toLowerCase() ? '1-0' : '0-1';
+  }
+  if (verdict) {
+    if (!verdict.winner) return '1/2-1/2';
+    return verdict.winner.toLowerCase() === onChainGame.player1.toLowerCase() ? '1-0' : '0-1';
+  }
+  return '*';
+}
+
+/**
+ * GET /api/games/[gameId]/pgn?chainId=
+ * Export a game as PGN with escrow tags and per-move %clk and %emt comments
+ * %emt is the time taken for the move: since the previous move, or since
+ * the opponent joined for the first move. %clk is the time left on the
+ * contract's timeout clock, which starts when the opponent joins and
+ * restarts with every capture; at zero either player can claim a timeout
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const gameId = params.gameId;
+
+    if (!gameId || isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    const store = getMoveStore(chainId);
+    const [moves, actions, metadata, onChainGame, escrowAmount] = await Promise.all([
+      store.list(gameId),
+      store.listActions(gameId),
+      store.getMetadata(gameId),
+      readEscrowGame(Number(gameId), chainId),
+      getEscrowAmount(chainId)
+    ]);
+
+    // The moves route records the join time with the first move; older games
+    // fall back to when the game was created
+    const joinedAt = Number(metadata.joinedAt ?? onChainGame.createdAt) * 1000;
+
+    const chess = new Chess();
+    let previousTimestamp = joinedAt;
+    let clockStartedAt = joinedAt;
+
+    for (const move of moves) {
+      let captured: string | undefined;
+      try {
+        captured = chess.move({ from: move.from, to: move.to, promotion: move.promotion }).captured;
+      } catch {
+        return NextResponse.json(
+          { error: `Stored move ${move.moveNumber} is illegal`, code: 'CORRUPT_HISTORY' },
+          { status: 500 }
+        );
+      }
+
+      const remaining = GAME_TIMEOUT_SECONDS - (move.timestamp - clockStartedAt) / 1000;
+      const elapsed = (move.timestamp - previousTimestamp) / 1000;
+      chess.setComment(`[%clk ${formatClock(remaining)}] [%emt ${formatClock(elapsed)}]`);
+
+      previousTimestamp = move.timestamp;
+      if (captured) {
+        clockStartedAt = move.timestamp;
+      }
+    }
+
+    const started = formatPgnDate(new Date(Number(onChainGame.createdAt) * 1000));
+
+    chess.setHeader('Event', 'MiniChess');
+    chess.setHeader('Site', 'MiniChess on Celo');
+    chess.setHeader('Date', started.date);
+    chess.setHeader('Round', '-');
+    chess.setHeader('White', onChainGame.player1);
+    chess.setHeader('Black', onChainGame.player2);
+    chess.setHeader('Result', resolveResult(onChainGame, getSettlementVerdict(moves, actions, onChainGame)));
+    chess.setHeader('UTCDate', started.date);
+    chess.setHeader('UTCTime', started.time);
+    if (moves.length > 0) {
+      chess.setHeader('EndDate', formatPgnDate(new Date(moves[moves.length - 1].timestamp)).date);
+    }
+    chess.setHeader('GameId', gameId);
+    chess.setHeader('EscrowAmount', `${formatEther(escrowAmount)} cUSD`);
+    chess.setHeader('EscrowStatus', GAME_STATUS_NAMES[onChainGame.status] || String(onChainGame.status));
+    chess.setHeader('Player1Balance', `${formatEther(onChainGame.player1Balance)} cUSD`);
+    chess.setHeader('Player2Balance', `${formatEther(onChainGame.player2Balance)} cUSD`);
+
+    return new NextResponse(chess.pgn() + '\n', {
+      headers: {
+        'Content-Type': 'application/x-chess-pgn; charset=utf-8',
+        'Content-Disposition': `attachment; filename="minichess-game-${gameId}.pgn"`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting PGN:', error);
+    return NextResponse.json(
+      { error: 'Failed to export PGN' },
+      { status: 500 }
+    );
+  }
+}
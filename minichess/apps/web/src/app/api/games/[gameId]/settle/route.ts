@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GAME_STATUS, GameEndedEvent, readEscrowGame, readGameEndedEvent, waitForGameEnded } from '@/lib/escrow-game';
+import { replayMoves } from '@/lib/game-moves';
+import { decodeMiniChessError } from '@/lib/minichess-errors';
+import { getMoveStore } from '@/lib/move-store';
+import { parseChainIdParam } from '@/lib/networks';
+import { getSettlementVerdict, submitSettlement } from '@/lib/settlement-relay';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/games/[gameId]/settle?chainId=
+ * Settlement recorded for a game: the arbiter's verdict and the GameEnded payout
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const gameId = params.gameId;
+
+    if (!gameId || isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    const metadata = await getMoveStore(chainId).getMetadata(gameId);
+    const txHash = metadata.settlementTxHash as `0x${string}` | undefined;
+    const event = txHash ? await readGameEndedEvent(txHash, chainId) : null;
+
+    return NextResponse.json({
+      gameId,
+      winner: metadata.settlementWinner ?? null,
+      reason: metadata.settlementReason ?? null,
+      txHash: txHash ?? null,
+      payout: event && {
+        winner: event.winner,
+        player1Payout: event.player1Payout.toString(),
+        player2Payout: event.player2Payout.toString(),
+        isDraw: event.isDraw,
+        blockNumber: event.blockNumber.toString()
+      }
+    });
+  } catch (error) {
+    console.error('Error loading settlement:', error);
+    return NextResponse.json(
+      { error: 'Failed to load settlement' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[gameId]/settle?chainId=
+ * Arbiter settlement: replays the stored move and action logs, confirms
+ * checkmate, resignation or a draw, then submits endGame or endGameDraw
+ * itself through the bundler. Clients never choose the winner; a game that
+ * is already settled returns its recorded settlement
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const gameId = params.gameId;
+
+    if (!gameId || isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    const store = getMoveStore(chainId);
+    const [moves, actions, onChainGame, metadata] = await Promise.all([
+      store.list(gameId),
+      store.listActions(gameId),
+      readEscrowGame(Number(gameId), chainId),
+      store.getMetadata(gameId)
+    ]);
+
+    if (onChainGame.status === GAME_STATUS.FINISHED && metadata.settlementTxHash) {
+      const event = await readGameEndedEvent(metadata.settlementTxHash as `0x${string}`, chainId);
+      if (event) {
+        return NextResponse.json(settlementResponse(gameId, metadata.settlementReason as string, event));
+      }
+    }
+
+    if (onChainGame.status !== GAME_STATUS.ACTIVE) {
+      return NextResponse.json(
+        { error: 'Game is not active', code: 'GAME_NOT_ACTIVE', status: onChainGame.status },
+        { status: 409 }
+      );
+    }
+
+    const verdict = getSettlementVerdict(moves, actions, onChainGame);
+    if (!verdict) {
+      return NextResponse.json(
+        { error: 'Game has not ended in checkmate, resignation or a draw', code: 'GAME_NOT_OVER', fen: replayMoves(moves).fen() },
+        { status: 409 }
+      );
+    }
+
+    await store.setMetadata(gameId, {
+      settlementWinner: verdict.winner,
+      settlementReason: verdict.reason,
+      settlementVerifiedAt: Date.now()
+    });
+
+    console.log(`[Game ${gameId}] Arbiter confirmed ${verdict.reason} after ${moves.length} moves, winner ${verdict.winner ? `${verdict.winner.slice(0, 6)}...` : 'none'}`);
+
+    const event = await submitSettlement(Number(gameId), verdict, chainId);
+    await store.setMetadata(gameId, { settlementTxHash: event.transactionHash });
+
+    console.log(`[Game ${gameId}] Settled in ${event.transactionHash}`);
+
+    return NextResponse.json(settlementResponse(gameId, verdict.reason, event));
+  } catch (error) {
+    // Relay failures carry the contract's revert reason, e.g. an arbiter signature it rejected
+    console.error('Error settling game:', error);
+    const { code, message } = decodeMiniChessError(error);
+    return NextResponse.json(
+      { error: `Failed to settle game: ${message}`, code },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Settlement as returned by POST: the verdict and the GameEnded payout
+ */
+function settlementResponse(gameId: string, reason: string, event: GameEndedEvent) {
+  return {
+    gameId,
+    winner: event.isDraw ? null : event.winner,
+    draw: event.isDraw,
+    reason,
+    txHash: event.transactionHash,
+    player1Payout: event.player1Payout.toString(),
+    player2Payout: event.player2Payout.toString()
+  };
+}
+
+/**
+ * PUT /api/games/[gameId]/settle?chainId=
+ * Record a claimTimeout transaction sent by a player once it is mined
+ * The hash is only stored if its receipt contains GameEnded for this game
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const gameId = params.gameId;
+
+    if (!gameId || isNaN(Number(gameId))) {
+      return NextResponse.json(
+        { error: 'Invalid game ID' },
+        { status: 400 }
+      );
+    }
+
+    const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+    if (chainId === null) {
+      return NextResponse.json(
+        { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+        { status: 400 }
+      );
+    }
+
+    const { txHash } = await request.json();
+    if (!txHash) {
+      return NextResponse.json(
+        { error: 'Missing required field: txHash' },
+        { status: 400 }
+      );
+    }
+
+    const event = await waitForGameEnded(txHash, chainId);
+    if (!event || event.gameId !== BigInt(gameId)) {
+      return NextResponse.json(
+        { error: 'Transaction did not end this game', code: 'INVALID_SETTLEMENT_TX' },
+        { status: 422 }
+      );
+    }
+
+    await getMoveStore(chainId).setMetadata(gameId, {
+      settlementTxHash: txHash,
+      settlementWinner: event.isDraw ? null : event.winner,
+      ...(event.timedOut && { settlementReason: 'timeout' })
+    });
+
+    return NextResponse.json({
+      success: true,
+      txHash,
+      winner: event.isDraw ? null : event.winner,
+      timedOut: event.timedOut,
+      isDraw: event.isDraw,
+      player1Payout: event.player1Payout.toString(),
+      player2Payout: event.player2Payout.toString()
+    });
+  } catch (error) {
+    console.error('Error recording settlement:', error);
+    return NextResponse.json(
+      { error: 'Failed to record settlement' },
+      { status: 500 }
+    );
+  }
+}
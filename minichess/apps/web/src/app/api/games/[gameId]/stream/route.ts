@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GameStreamEvent, subscribeToGame } from '@/lib/game-stream';
+import { parseChainIdParam } from '@/lib/networks';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 15000; // Keeps proxies from closing idle streams
+
+/**
+ * GET /api/games/[gameId]/stream
+ * Server-Sent Events feed of moves, captures, game actions and on-chain status changes
+ * Resume from a move number with `?since=<moveNumber>` or the Last-Event-ID header,
+ * and from an action number with `?actionsSince=<actionNumber>`; `?chainId=` picks the network
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  const gameId = Number(params.gameId);
+
+  if (!params.gameId || isNaN(gameId)) {
+    return NextResponse.json(
+      { error: 'Invalid game ID' },
+      { status: 400 }
+    );
+  }
+
+  const chainId = parseChainIdParam(request.nextUrl.searchParams.get('chainId'));
+  if (chainId === null) {
+    return NextResponse.json(
+      { error: 'Unsupported chain', code: 'UNSUPPORTED_CHAIN' },
+      { status: 400 }
+    );
+  }
+
+  // EventSource reconnects with the id of the last move it received,
+  // which may be newer than the cursor in the original URL
+  const since = Math.max(
+    Number(request.nextUrl.searchParams.get('since')) || 0,
+    Number(request.headers.get('last-event-id')) || 0
+  );
+  const actionsSince = Number(request.nextUrl.searchParams.get('actionsSince')) || 0;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const send = (message: GameStreamEvent) => {
+        const id = message.event === 'move' ? `id: ${message.id}\n` : '';
+        write(`${id}event: ${message.event}\ndata: ${JSON.stringify(message.data)}\n\n`);
+      };
+
+      write('retry: 2000\n\n');
+      const unsubscribe = subscribeToGame(gameId, chainId, since, actionsSince, send);
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
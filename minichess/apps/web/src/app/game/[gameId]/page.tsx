@@ -2,13 +2,18 @@
 
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { useAccount } from 'wagmi';
-import { createPublicClient, http } from 'viem';
-import { celoSepolia } from 'viem/chains';
+import { useAccount, useChainId } from 'wagmi';
 import dynamic from 'next/dynamic';
+import toast from 'react-hot-toast';
 import { useGameContract } from '@/hooks/useGameContract';
 import { useActiveGame } from '@/hooks/useActiveGame';
-import MiniChessEscrowPaymasterABI from '@/contracts/MiniChessEscrowPaymaster.json';
+import { useGameStream } from '@/hooks/useGameStream';
+import { SettlementSummary } from '@/components/settlement-summary';
+import { TimeoutCountdown } from '@/components/timeout-countdown';
+import { NetworkGuard } from '@/components/network-guard';
+import { toastError } from '@/components/error-toast';
+import { gameApiUrl } from '@/lib/game-api';
+import { getGame } from '@/lib/minichess-client';
 
 // Dynamic import with no SSR
 const ChessBoard = dynamic(() => import('@/components/ChessBoard'), {
@@ -16,15 +21,23 @@ const ChessBoard = dynamic(() => import('@/components/ChessBoard'), {
   loading: () => <div>Loading chess board...</div>
 });
 
-const CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`;
+export default function GuardedGamePage() {
+  return (
+    <NetworkGuard>
+      <GamePage />
+    </NetworkGuard>
+  );
+}
 
-export default function GamePage() {
+function GamePage() {
   const params = useParams();
   const router = useRouter();
   const { address, isConnected } = useAccount();
+  const chainId = useChainId();
   const { cancelGame, loading: cancelLoading } = useGameContract();
   const { clearActiveGame } = useActiveGame();
   const gameId = Number(params.gameId);
+  const stream = useGameStream(gameId);
 
   const [gameState, setGameState] = useState<{
     player1: string;
@@ -33,18 +46,14 @@ export default function GamePage() {
     player1Balance: bigint;
     player2Balance: bigint;
     createdAt: bigint;
+    lastMoveAt: bigint;
   } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [timeElapsed, setTimeElapsed] = useState(0);
   const [canCancel, setCanCancel] = useState(false);
 
-  const publicClient = createPublicClient({
-    chain: celoSepolia,
-    transport: http()
-  });
-
-  // Poll game state
+  // Load game state once; later changes arrive over the game stream
   useEffect(() => {
     if (!gameId || isNaN(gameId)) {
       setError('Invalid game ID');
@@ -54,14 +63,7 @@ export default function GamePage() {
 
     const fetchGameState = async () => {
       try {
-        const result = await publicClient.readContract({
-          address: CONTRACT_ADDRESS,
-          abi: MiniChessEscrowPaymasterABI.abi,
-          functionName: 'getGame',
-          args: [BigInt(gameId)]
-        }) as [string, string, bigint, bigint, number, string, bigint, bigint];
-
-        const [player1, player2, player1Balance, player2Balance, status, winner, createdAt] = result;
+        const { player1, player2, player1Balance, player2Balance, status, createdAt, lastMoveAt } = await getGame(gameId, chainId);
 
         setGameState({
           player1,
@@ -69,7 +71,8 @@ export default function GamePage() {
           status,
           player1Balance,
           player2Balance,
-          createdAt
+          createdAt,
+          lastMoveAt
         });
         setIsLoading(false);
       } catch (err) {
@@ -79,14 +82,24 @@ export default function GamePage() {
       }
     };
 
-    // Initial fetch
     fetchGameState();
+  }, [gameId, chainId]);
 
-    // Poll every 3 seconds
-    const interval = setInterval(fetchGameState, 3000);
-
-    return () => clearInterval(interval);
-  }, [gameId]);
+  // Apply on-chain status changes pushed by the stream
+  useEffect(() => {
+    if (!stream.status) return;
+
+    setGameState({
+      player1: stream.status.player1,
+      player2: stream.status.player2,
+      status: stream.status.status,
+      player1Balance: BigInt(stream.status.player1Balance),
+      player2Balance: BigInt(stream.status.player2Balance),
+      createdAt: BigInt(stream.status.createdAt),
+      lastMoveAt: BigInt(stream.status.lastMoveAt)
+    });
+    setIsLoading(false);
+  }, [stream.status]);
 
   // Track time elapsed since game creation
   useEffect(() => {
@@ -117,7 +130,7 @@ export default function GamePage() {
 
   const handleCancelGame = async () => {
     if (!canCancel) {
-      alert('You must wait 5 minutes before cancelling');
+      toast.error('You must wait 5 minutes before cancelling');
       return;
     }
 
@@ -139,10 +152,15 @@ export default function GamePage() {
       router.push('/');
     } catch (error) {
       console.error('Failed to cancel game:', error);
-      alert('Failed to cancel game. Please try again.');
+      toastError(error, 'Failed to cancel game');
     }
   };
 
+  // The claim is final on-chain, so show the finished view without waiting for the next status poll
+  const handleTimedOut = () => {
+    setGameState(prev => prev && { ...prev, status: 2 });
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -245,7 +263,7 @@ export default function GamePage() {
                 <button
                   onClick={() => {
                     navigator.clipboard.writeText(gameId.toString());
-                    alert('Game ID copied to clipboard!');
+                    toast.success('Game ID copied to clipboard!');
                   }}
                   className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
                 >
@@ -314,6 +332,11 @@ export default function GamePage() {
 
   // Active Game
   if (isActive) {
+    // Seats for the side to move and the side waiting, from the board; one address may hold both
+    const turn = stream.game.turn();
+    const isToMove = turn === 'w' ? isPlayer1 : isPlayer2;
+    const isWaitingSide = turn === 'w' ? isPlayer2 : isPlayer1;
+
     return (
       <div className="min-h-screen p-4">
         <div className="mb-4 text-center">
@@ -324,6 +347,13 @@ export default function GamePage() {
           </div>
         </div>
         <h1 className="text-3xl font-bold text-center mb-6">MiniChess - Game #{gameId}</h1>
+        <TimeoutCountdown
+          gameId={gameId}
+          lastMoveAt={gameState.lastMoveAt}
+          isToMove={isToMove}
+          canClaim={isWaitingSide}
+          onTimedOut={handleTimedOut}
+        />
         <ChessBoard 
           gameId={gameId} 
           player1={gameState.player1} 
@@ -335,14 +365,30 @@ export default function GamePage() {
 
   // Finished or Cancelled
   return (
-    <div className="min-h-screen flex items-center justify-center">
-      <div className="text-center">
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="text-center flex flex-col items-center">
         <h1 className="text-2xl font-bold mb-4">
           {isFinished ? 'Game Finished' : 'Game Cancelled'}
         </h1>
         <p className="mb-4 text-gray-600">
           {isFinished ? 'This game has ended' : 'This game was cancelled'}
         </p>
+        {isFinished && (
+          <SettlementSummary
+            gameId={gameId}
+            player1={gameState.player1}
+            player2={gameState.player2}
+          />
+        )}
+        {isFinished && (
+          <a
+            href={gameApiUrl(gameId, chainId, 'pgn')}
+            download
+            className="block mb-4 text-blue-600 hover:text-blue-800 text-sm underline"
+          >
+            Download PGN
+          </a>
+        )}
         <button
           onClick={() => router.push('/')}
           className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700"
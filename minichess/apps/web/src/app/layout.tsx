@@ -2,6 +2,7 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 
+import { Toaster } from 'react-hot-toast';
 import { Navbar } from '@/components/navbar';
 import { WalletProvider } from "@/components/wallet-provider"
 
@@ -28,6 +29,7 @@ export default function RootLayout({
               {children}
             </main>
           </WalletProvider>
+          <Toaster position="top-center" />
         </div>
       </body>
     </html>
@@ -1,16 +1,19 @@
 'use client';
 
 import { useState } from 'react';
-import { useAccount, useConnect } from 'wagmi';
+import { useAccount, useChainId, useConnect } from 'wagmi';
 import { useRouter } from 'next/navigation';
 import dynamic from 'next/dynamic';
 import { useGameContract } from '@/hooks/useGameContract';
 import { useActiveGame } from '@/hooks/useActiveGame';
+import { useEscrowPreflight } from '@/hooks/useEscrowPreflight';
 import { PlayerProfile } from '@/components/player-profile';
+import { NetworkGuard } from '@/components/network-guard';
+import { toastError } from '@/components/error-toast';
 import Link from 'next/link';
-import { createPublicClient, http, decodeEventLog } from 'viem';
-import { celoSepolia } from 'viem/chains';
-import MiniChessEscrowPaymasterABI from '@/contracts/MiniChessEscrowPaymaster.json';
+import toast from 'react-hot-toast';
+import { decodeEventLog, formatEther } from 'viem';
+import { getPublicClient, miniChessEscrowPaymasterAbi } from '@/lib/minichess-client';
 
 // Dynamic imports with no SSR
 const ChessBoard = dynamic(() => import('@/components/ChessBoard'), {
@@ -24,12 +27,64 @@ const PracticeBoard = dynamic(() => import('@/components/PracticeBoard'), {
 });
 
 
-export default function Home() {
+/**
+ * cUSD balance against the escrow deposit, with gas sponsorship left
+ */
+function EscrowSummary({ escrow }: { escrow: ReturnType<typeof useEscrowPreflight> }) {
+  const { preflight, fundingHint } = escrow;
+  if (!preflight) return null;
+
+  const { balance, escrowAmount, shortfall, needsApproval, sponsorship } = preflight;
+
+  return (
+    <div className={`rounded-lg border px-4 py-3 text-sm ${shortfall > 0n ? 'bg-red-50 border-red-300' : 'bg-gray-50 border-gray-200'}`}>
+      <div className="flex justify-between">
+        <span className="text-gray-600">Your cUSD:</span>
+        <span className="font-semibold">{Number(formatEther(balance)).toFixed(2)} / {formatEther(escrowAmount)} needed</span>
+      </div>
+      {shortfall > 0n && (
+        <div className="mt-2 text-red-700">
+          {formatEther(shortfall)} cUSD short. {fundingHint}
+        </div>
+      )}
+      {shortfall === 0n && needsApproval && (
+        <div className="mt-1 text-xs text-gray-500">The deposit is approved in the same step as creating or joining.</div>
+      )}
+      {sponsorship && (
+        <div className="mt-1 flex justify-between text-xs text-gray-500">
+          <span>Sponsored transactions left:</span>
+          <span>
+            {sponsorship.remaining.toString()}
+            {sponsorship.resetsAt && ` (resets ${new Date(sponsorship.resetsAt).toLocaleTimeString()})`}
+          </span>
+        </div>
+      )}
+      {sponsorship && sponsorship.remaining < BigInt(sponsorship.needed) && (
+        <div className="mt-1 text-xs text-yellow-700">
+          This needs {sponsorship.needed} sponsored transactions; you may have to wait for the limit to reset.
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function HomePage() {
+  return (
+    <NetworkGuard>
+      <Home />
+    </NetworkGuard>
+  );
+}
+
+function Home() {
   const { address, isConnected } = useAccount();
   const { connect } = useConnect();
+  const chainId = useChainId();
+  const publicClient = getPublicClient(chainId);
   const router = useRouter();
-  const { createGameWithSession, joinGameWithSession, cancelGame, isReady, isSessionValid } = useGameContract();
+  const { createGameWithSession, joinGameWithSession, cancelGame, isReady } = useGameContract();
   const { isChecking, setActiveGame } = useActiveGame();
+  const escrow = useEscrowPreflight();
 
   const [gameId, setGameId] = useState<number | null>(null);
   const [joinGameId, setJoinGameId] = useState('');
@@ -39,11 +94,6 @@ export default function Home() {
   const [player2, setPlayer2] = useState('');
   const [showPracticeMode, setShowPracticeMode] = useState(false);
 
-  const publicClient = createPublicClient({
-    chain: celoSepolia,
-    transport: http()
-  });
-
   const handleCreateGame = async () => {
     setIsLoading(true);
     try {
@@ -54,28 +104,21 @@ export default function Home() {
       const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash as `0x${string}` });
       
       // Find GameCreated event
-      const gameCreatedLog = receipt.logs.find(log => {
+      const gameCreated = receipt.logs.map(log => {
         try {
-          const event = decodeEventLog({
-            abi: MiniChessEscrowPaymasterABI.abi,
+          return decodeEventLog({
+            abi: miniChessEscrowPaymasterAbi,
             data: log.data,
-            topics: log.topics
+            topics: log.topics,
+            eventName: 'GameCreated'
           });
-          return event.eventName === 'GameCreated';
         } catch {
-          return false;
+          return null;
         }
-      });
+      }).find(event => event !== null);
 
-      if (gameCreatedLog) {
-        const event = decodeEventLog({
-          abi: MiniChessEscrowPaymasterABI.abi,
-          data: gameCreatedLog.data,
-          topics: gameCreatedLog.topics
-        });
-        
-        // @ts-ignore
-        const newGameId = Number(event.args.gameId);
+      if (gameCreated) {
+        const newGameId = Number(gameCreated.args.gameId);
         console.log('Game created with ID:', newGameId);
 
         // Store active game ID
@@ -85,13 +128,14 @@ export default function Home() {
         router.push(`/game/${newGameId}`);
       } else {
         console.error('GameCreated event not found in logs');
-        alert('Game created but could not retrieve ID. Check console.');
+        toast.error('Game created but could not retrieve ID. Check console.');
       }
     } catch (error) {
       console.error('Failed to create game:', error);
-      alert('Failed to create game');
+      toastError(error, 'Failed to create game');
     } finally {
       setIsLoading(false);
+      escrow.refresh();
     }
   };
 
@@ -114,9 +158,10 @@ export default function Home() {
       
     } catch (error) {
       console.error('Failed to join game:', error);
-      alert('Failed to join game');
+      toastError(error, 'Failed to join game');
     } finally {
       setIsLoading(false);
+      escrow.refresh();
     }
   };
 
@@ -131,14 +176,15 @@ export default function Home() {
       // Wait for transaction receipt
       await publicClient.waitForTransactionReceipt({ hash: txHash as `0x${string}` });
       
-      alert('Game cancelled successfully! Your funds have been refunded.');
+      toast.success('Game cancelled successfully! Your funds have been refunded.');
       setCancelGameId('');
       
     } catch (error) {
       console.error('Failed to cancel game:', error);
-      alert('Failed to cancel game. Make sure 5 minutes have passed since creation.');
+      toastError(error, 'Failed to cancel game');
     } finally {
       setIsLoading(false);
+      escrow.refresh();
     }
   };
 
@@ -220,15 +266,21 @@ export default function Home() {
           <div>
             <h2 className="text-xl font-semibold mb-4">Create New Game</h2>
             <p className="text-sm text-gray-600 mb-4">
-              Deposit 2.5 cUSD to start a game
+              {escrow.preflight
+                ? `Deposit ${formatEther(escrow.preflight.escrowAmount)} cUSD to start a game`
+                : 'Deposit the escrow amount to start a game'}
             </p>
+            <div className="mb-4">
+              <EscrowSummary escrow={escrow} />
+            </div>
             <button
               onClick={handleCreateGame}
-              disabled={isLoading || !isReady}
+              disabled={isLoading || !isReady || !escrow.canPlay}
               className="w-full bg-green-600 text-white py-3 rounded-lg font-semibold hover:bg-green-700 disabled:opacity-50"
             >
               {isLoading ? 'Creating...' : 'Create Game'}
             </button>
+            {!escrow.canPlay && <p className="mt-2 text-xs text-gray-500 text-center">{escrow.reason}</p>}
           </div>
 
           <div className="border-t pt-6">
@@ -242,11 +294,12 @@ export default function Home() {
             />
             <button
               onClick={handleJoinGame}
-              disabled={isLoading || !joinGameId || !isReady}
+              disabled={isLoading || !joinGameId || !isReady || !escrow.canPlay}
               className="w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
             >
               {isLoading ? 'Joining...' : 'Join Game'}
             </button>
+            {!escrow.canPlay && <p className="mt-2 text-xs text-gray-500 text-center">{escrow.reason}</p>}
           </div>
 
           <div className="border-t pt-6">
@@ -2,10 +2,23 @@
 
 import { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
-import { Chess } from 'chess.js';
+import { Chess, Move, PieceSymbol } from 'chess.js';
+import { formatEther } from 'viem';
+import toast from 'react-hot-toast';
 import { useAccount } from 'wagmi';
 import { useGameContract } from '@/hooks/useGameContract';
 import { useActiveGame } from '@/hooks/useActiveGame';
+import { useGameStream } from '@/hooks/useGameStream';
+import { useCaptureOutbox } from '@/hooks/useCaptureOutbox';
+import { useGameBalances } from '@/hooks/useGameBalances';
+import { useNetwork } from '@/hooks/useNetwork';
+import { useGameSession } from '@/components/game-session-provider';
+import { DRAW_REASON_LABELS, getDrawReason } from '@/lib/game-moves';
+import { GameActionType, getGameActionState } from '@/lib/game-actions';
+import { gameApiUrl } from '@/lib/game-api';
+import { PIECE_TYPE_MAP, PIECE_VALUES } from '@/lib/piece-values';
+import { MoveList, getReviewPosition } from '@/components/move-list';
+import { toastError } from '@/components/error-toast';
 
 // Dynamic import with no SSR
 const ChessboardWrapper = dynamic(() => import('@/components/ChessboardWrapper'), {
@@ -13,42 +26,73 @@ const ChessboardWrapper = dynamic(() => import('@/components/ChessboardWrapper')
   loading: () => <div>Loading chessboard...</div> // Optional loading state
 });
 
+/**
+ * On-chain balance with any unconfirmed capture delta
+ */
+function BalanceDisplay({ balance, pending }: { balance: bigint | null; pending: number }) {
+  return (
+    <>
+      <span className="text-green-600">
+        {balance === null ? '...' : `$${Number(formatEther(balance)).toFixed(2)} cUSD`}
+      </span>
+      {pending !== 0 && (
+        <span className="text-xs font-normal text-yellow-600">
+          {pending > 0 ? '+' : '-'}${Math.abs(pending).toFixed(2)} pending
+        </span>
+      )}
+    </>
+  );
+}
+
 interface ChessBoardProps {
   gameId: number;
   player1: string;
   player2: string;
 }
 
-const PIECE_VALUES = {
-  p: 0.05, // Pawn
-  n: 0.15, // Knight
-  b: 0.15, // Bishop
-  r: 0.25, // Rook
-  q: 0.50, // Queen
-  k: 0,    // King
-};
-
-const PIECE_TYPE_MAP: Record<string, number> = {
-  p: 0, // PAWN
-  n: 1, // KNIGHT
-  b: 2, // BISHOP
-  r: 3, // ROOK
-  q: 4, // QUEEN
-  k: 5, // KING
-};
-
 export default function ChessBoardPaymaster({ gameId, player1, player2 }: ChessBoardProps) {
-  const [game, setGame] = useState(new Chess());
-  const [player1Balance, setPlayer1Balance] = useState(2.5);
-  const [player2Balance, setPlayer2Balance] = useState(2.5);
+  // Locally applied move waiting for the server to confirm it
+  const [pendingGame, setPendingGame] = useState<Chess | null>(null);
   const [captureAnimations, setCaptureAnimations] = useState<string[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [lastAppliedMoveNumber, setLastAppliedMoveNumber] = useState(0);
-  const [isSyncing, setIsSyncing] = useState(false);
-  
+  const [settlementState, setSettlementState] = useState<'idle' | 'settling' | 'settled' | 'failed'>('idle');
+  const [pendingAction, setPendingAction] = useState<GameActionType | null>(null);
+  // Number of plies shown while reviewing earlier moves, null when following the game
+  const [reviewPly, setReviewPly] = useState<number | null>(null);
+  const [isRenewing, setIsRenewing] = useState(false);
+
   const { address } = useAccount();
-  const { capturePiecePaymaster, loading, isReady, isSessionValid } = useGameContract();
+  const { chainId } = useNetwork();
+  const stream = useGameStream(gameId);
+  const balances = useGameBalances(gameId);
+  const game = pendingGame ?? stream.game;
+  const { signMove, signGameAction, endGame, settleDraw, loading, isReady } = useGameContract();
+  const session = useGameSession(gameId);
   const { clearActiveGame } = useActiveGame();
+  const captureOutbox = useCaptureOutbox(gameId, {
+    onConfirmed: ({ piece }) => {
+      // The contract is the source of truth for balances, re-read it now
+      // rather than waiting for the PieceCaptured watcher to catch up
+      balances.refresh();
+      showCaptureAnimation(piece, PIECE_VALUES[piece as PieceSymbol]);
+    }
+  });
+  const failedCaptures = captureOutbox.entries.filter(entry => entry.status === 'failed');
+
+  // Our captures not yet confirmed on-chain, shown next to the on-chain balances
+  let player1Pending = 0;
+  let player2Pending = 0;
+  for (const entry of captureOutbox.entries) {
+    if (entry.status !== 'pending') continue;
+    const value = PIECE_VALUES[entry.piece as PieceSymbol];
+    if (entry.captor.toLowerCase() === player1.toLowerCase()) {
+      player1Pending += value;
+      player2Pending -= value;
+    } else {
+      player2Pending += value;
+      player1Pending -= value;
+    }
+  }
 
   const isMyTurn = () => {
     const turn = game.turn();
@@ -90,113 +134,159 @@ export default function ChessBoardPaymaster({ gameId, player1, player2 }: ChessB
     }, 2000);
   };
 
-  // Submit move to API
-  const submitMove = async (from: string, to: string, promotion?: string) => {
+  // Sign and submit move to API
+  const submitMove = async (moveNumber: number, from: string, to: string, promotion?: string) => {
     try {
-      const response = await fetch(`/api/games/${gameId}/moves`, {
+      const { signer, signature, sessionKey } = await signMove(gameId, moveNumber, from, to, promotion);
+
+      const response = await fetch(gameApiUrl(gameId, chainId, 'moves'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           from,
           to,
           promotion,
-          player: address
+          player: signer,
+          signature,
+          sessionKey,
+          expectedMoveNumber: moveNumber
         })
       });
 
       if (!response.ok) {
-        console.error('Failed to submit move to API');
+        const data = await response.json().catch(() => ({}));
+        console.error('[Move Sync] Move rejected by server:', data.code, data.error);
+
+        // The server is authoritative: drop the local move and show the stored history
+        setPendingGame(null);
+
+        if (data.code === 'STALE_MOVE_NUMBER') {
+          // Another move landed first; rebuild from the server's list instead of diverging
+          stream.resync();
+        } else {
+          toast.error(data.error || 'Move rejected by server');
+        }
       } else {
         const data = await response.json();
         console.log('[Move Sync] Move submitted:', data.move);
       }
     } catch (error) {
       console.error('[Move Sync] Error submitting move:', error);
+      setPendingGame(null);
+      toastError(error, 'Move not sent');
     }
   };
 
-  // Fetch and apply opponent moves
-  const fetchAndApplyMoves = async () => {
-    if (isSyncing) return; // Prevent concurrent syncs
-    
+  // Moves arrive over the game stream; once the server has a new move the
+  // local pending copy is superseded by the authoritative position
+  useEffect(() => {
+    setPendingGame(null);
+  }, [stream.lastMoveNumber]);
+
+  const isPlayer1 = address?.toLowerCase() === player1.toLowerCase();
+  const isPlayer = isPlayer1 || address?.toLowerCase() === player2.toLowerCase();
+
+  // Resignations and draw offers from the action log
+  const actionState = getGameActionState(stream.actions, stream.lastMoveNumber, { player1, player2 });
+  const resignedBy = actionState.resignedBy;
+  const resignWinner = resignedBy ? (resignedBy.toLowerCase() === player1.toLowerCase() ? player2 : player1) : null;
+  const drawOffer = actionState.drawOffer;
+  const isOfferFromMe = !!drawOffer && drawOffer.player.toLowerCase() === address?.toLowerCase();
+
+  // Checkmate on the confirmed (server-side) position
+  const isCheckmate = !pendingGame && stream.game.isCheckmate();
+  const checkmateWinner = isCheckmate ? (stream.game.turn() === 'w' ? player2 : player1) : null;
+  const winner = checkmateWinner ?? resignWinner;
+  const isWinner = !!winner && winner.toLowerCase() === address?.toLowerCase();
+
+  // Draws on the board; player1 asks for settlement so both sides don't request it
+  const boardDrawReason = !pendingGame ? getDrawReason(stream.game) : null;
+  const drawReason = boardDrawReason ?? (actionState.drawAgreed ? 'mutual_agreement' : null);
+  const settlesDraw = !!boardDrawReason && isPlayer1;
+
+  const isGameOver = !!winner || !!drawReason;
+
+  // Confirmed moves for the move list
+  const history = stream.game.history({ verbose: true });
+
+  const settleGame = async (asDraw = !!drawReason) => {
+    setSettlementState('settling');
     try {
-      setIsSyncing(true);
-      const response = await fetch(`/api/games/${gameId}/moves`);
-      
-      if (!response.ok) {
-        console.error('Failed to fetch moves from API');
-        return;
+      if (asDraw) {
+        const { txHash, player1Balance, player2Balance } = await settleDraw(gameId);
+        console.log('Draw settled on-chain:', txHash, { player1Balance, player2Balance });
+      } else {
+        const { txHash } = await endGame(gameId);
+        console.log('Game settled on-chain:', txHash);
       }
+      setSettlementState('settled');
+    } catch (error) {
+      console.error('Settlement failed:', error);
+      setSettlementState('failed');
+      toastError(error, 'Settlement failed');
+    }
+  };
 
-      const data = await response.json();
-      const moves = data.moves || [];
+  // The winner of a checkmate (or player1 on a board draw) asks the server to settle;
+  // resignations and agreed draws are settled by the player who took the action.
+  // The game page switches to the settlement screen when the stream reports the game as finished
+  useEffect(() => {
+    if (((isCheckmate && isWinner) || settlesDraw) && settlementState === 'idle') {
+      settleGame();
+    }
+  }, [isCheckmate, isWinner, settlesDraw]);
 
-      console.log('[Move Sync] All moves:', moves);
-      console.log('[Move Sync] Last applied move number:', lastAppliedMoveNumber);
-      console.log('[Move Sync] Current address:', address?.toLowerCase());
+  // Sign and submit a resignation or draw action; it reaches the opponent over the game stream
+  const submitAction = async (action: GameActionType) => {
+    if (action === 'resign' && !confirm('Resign this game? Your opponent will be paid out as the winner.')) {
+      return;
+    }
 
-      // Determine actual player addresses from move history
-      // The API stores the actual wallet addresses, not session keys
-      if (moves.length > 0 && player1.toLowerCase() === player2.toLowerCase()) {
-        const uniquePlayers = [...new Set(moves.map((m: any) => m.player.toLowerCase()))];
-        console.log('[Move Sync] Detected unique players from moves:', uniquePlayers);
+    setPendingAction(action);
+    try {
+      const actionNumber = stream.actions.length + 1;
+      const { signer, signature, sessionKey } = await signGameAction(gameId, actionNumber, action);
 
-        if (uniquePlayers.length >= 2) {
-          console.log('[Move Sync] Using API player addresses instead of on-chain addresses');
-          // We'll handle turn validation based on move history instead
+      const response = await fetch(gameApiUrl(gameId, chainId, 'actions'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          player: signer,
+          signature,
+          sessionKey,
+          expectedActionNumber: actionNumber
+        })
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        console.error('[Game Actions] Action rejected by server:', data.code, data.error);
+        if (data.code === 'STALE_ACTION_NUMBER') {
+          stream.resync();
+        } else {
+          toast.error(data.error || 'Action rejected by server');
         }
+        return;
       }
 
-      // Find the highest move number we've already seen
-      const allMoveNumbers = moves.map((m: any) => m.moveNumber);
-      const highestMoveNumber = allMoveNumbers.length > 0 ? Math.max(...allMoveNumbers) : 0;
-
-      // If we have new moves that we haven't processed yet
-      if (highestMoveNumber > lastAppliedMoveNumber) {
-        console.log(`[Move Sync] New moves detected, rebuilding game state from move ${lastAppliedMoveNumber + 1}`);
-
-        // Rebuild the entire game state from the move list
-        const gameCopy = new Chess();
-
-        for (const move of moves) {
-          const result = gameCopy.move({
-            from: move.from,
-            to: move.to,
-            promotion: move.promotion || 'q'
-          });
-
-          if (result) {
-            console.log(`[Move Sync] Applied move ${move.moveNumber}: ${move.from} -> ${move.to} by ${move.player}`);
-          } else {
-            console.error(`[Move Sync] Failed to apply move ${move.moveNumber}:`, move);
-          }
-        }
+      console.log('[Game Actions] Action submitted:', data.action);
 
-        console.log('[Move Sync] Updated game FEN:', gameCopy.fen());
-        setGame(gameCopy);
-        setLastAppliedMoveNumber(highestMoveNumber);
+      // Resigning or accepting a draw ends the game; settle the escrow straight away
+      if (action === 'resign' || action === 'accept_draw') {
+        clearActiveGame();
+        await settleGame(action === 'accept_draw');
       }
     } catch (error) {
-      console.error('[Move Sync] Error fetching moves:', error);
+      console.error('[Game Actions] Error submitting action:', error);
+      toastError(error, 'Action not sent');
     } finally {
-      setIsSyncing(false);
+      setPendingAction(null);
     }
   };
 
-  // Poll for new moves every 2 seconds
-  useEffect(() => {
-    const interval = setInterval(() => {
-      fetchAndApplyMoves();
-    }, 2000);
-
-    // Initial fetch
-    fetchAndApplyMoves();
-
-    return () => clearInterval(interval);
-  }, [gameId, lastAppliedMoveNumber, address, game.fen()]);
-
-  async function makeMove(sourceSquare: string, targetSquare: string, piece: string): Promise<boolean> {
-    console.log('ChessBoard makeMove called', { sourceSquare, targetSquare, piece });
+  async function makeMove(sourceSquare: string, targetSquare: string, piece: string, promotion?: string): Promise<boolean> {
+    console.log('ChessBoard makeMove called', { sourceSquare, targetSquare, piece, promotion });
 
     // Guard against null targetSquare
     if (!targetSquare) {
@@ -204,134 +294,100 @@ export default function ChessBoardPaymaster({ gameId, player1, player2 }: ChessB
       return false;
     }
 
-    // Check if it's player's turn using move history
-    try {
-      const response = await fetch(`/api/games/${gameId}/moves`);
-      if (response.ok) {
-        const data = await response.json();
-        const moves = data.moves || [];
-
-        if (moves.length > 0) {
-          const lastMove = moves[moves.length - 1];
-          if (lastMove.player.toLowerCase() === address?.toLowerCase()) {
-            console.log('Not your turn - you made the last move');
-            alert('Not your turn!');
-            return false;
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error checking turn from API:', error);
-      // Fall back to local turn check
-      if (!isMyTurn()) {
-        console.log('Not your turn (fallback check)');
-        alert('Not your turn!');
-        return false;
-      }
+    if (pendingGame) {
+      console.log('Previous move still syncing');
+      return false;
     }
 
+    if (isGameOver) {
+      console.log('Game is over');
+      return false;
+    }
+
+    // The streamed position is authoritative, and the server enforces turns again on submit
+    if (!isMyTurn()) {
+      console.log('Not your turn');
+      toast.error('Not your turn!', { id: 'not-your-turn' });
+      return false;
+    }
+
+    // Number this move will be stored under, signed together with the move
+    const nextMoveNumber = stream.lastMoveNumber + 1;
+
     if (isProcessing || !isReady) {
       console.log('Processing or not ready', { isProcessing, isReady });
-      alert('Transaction in progress or session not ready...');
+      toast('Transaction in progress or session not ready...', { id: 'not-ready' });
       return false;
     }
 
-    const gameCopy = new Chess(game.fen());
-    const move = gameCopy.move({
-      from: sourceSquare,
-      to: targetSquare,
-      promotion: 'q',
-    });
+    if (session.status === 'none' || session.status === 'expired') {
+      console.log('No active session for game', gameId);
+      toast.error('Renew your session to keep making moves', { id: 'session-expired' });
+      return false;
+    }
 
-    if (move === null) {
+    const gameCopy = new Chess(game.fen());
+    let move: Move;
+    try {
+      // The promotion piece comes from the picker in ChessboardWrapper
+      move = gameCopy.move({
+        from: sourceSquare,
+        to: targetSquare,
+        promotion
+      });
+    } catch {
       console.log('Invalid move');
       return false;
     }
 
     console.log('Move successful', move);
 
-    setGame(gameCopy);
+    setPendingGame(gameCopy);
 
     // Submit move to API for real-time sync
-    submitMove(sourceSquare, targetSquare, move.promotion);
+    submitMove(nextMoveNumber, sourceSquare, targetSquare, move.promotion);
 
-    // Handle capture with paymaster (gasless + no signature)
+    // The server pays out the capture from the move log; the outbox tracks
+    // it and nudges the relay until PieceCaptured lands
     if (move.captured) {
-      const capturedValue = PIECE_VALUES[move.captured as keyof typeof PIECE_VALUES];
-      const captor = address;
-      const victim = captor === player1 ? player2 : player1;
-      const pieceType = PIECE_TYPE_MAP[move.captured];
-
-      setIsProcessing(true);
-
-      // Handle async capture separately to not block the move
-      (async () => {
-        try {
-          // Submit gasless capture transaction (no user signature needed!)
-          const txHash = await capturePiecePaymaster(gameId, captor || address || '', pieceType);
-          
-          // Update UI immediately (optimistic)
-          if (captor === player1) {
-            setPlayer1Balance(prev => prev + capturedValue);
-            setPlayer2Balance(prev => prev - capturedValue);
-          } else {
-            setPlayer2Balance(prev => prev + capturedValue);
-            setPlayer1Balance(prev => prev - capturedValue);
-          }
-
-          // Show capture animation
-          showCaptureAnimation(move.captured!, capturedValue);
-          
-          console.log('Gasless capture successful:', txHash);
-          
-        } catch (error) {
-          console.error('Gasless capture failed:', error);
-          alert('Capture failed. Please try again.');
-        } finally {
-          setIsProcessing(false);
-        }
-      })();
+      captureOutbox.enqueue({
+        moveNumber: nextMoveNumber,
+        captor: move.color === 'w' ? player1 : player2,
+        pieceType: PIECE_TYPE_MAP[move.captured],
+        piece: move.captured
+      });
     }
 
     // Check for game over
+    // Checkmates and draws are settled on-chain once the server confirms the move, see settleGame
     if (gameCopy.isGameOver()) {
-      const winner = gameCopy.turn() === 'w' ? player2 : player1;
-
       // Clear active game from storage since game is over
       clearActiveGame();
-
-      setTimeout(() => {
-        if (gameCopy.isCheckmate()) {
-          alert(`Checkmate! ${winner === address ? 'You' : 'Opponent'} won!`);
-        } else {
-          alert('Game ended in a draw!');
-        }
-      }, 500);
     }
 
     return true;
   }
 
   // Synchronous wrapper for the chessboard component
-  const handlePieceDrop = (sourceSquare: string, targetSquare: string, piece: string): boolean => {
+  const handlePieceDrop = (sourceSquare: string, targetSquare: string, piece: string, promotion?: string): boolean => {
     // Execute the async makeMove function but don't wait for it
-    makeMove(sourceSquare, targetSquare, piece);
+    makeMove(sourceSquare, targetSquare, piece, promotion);
     // Return true immediately to allow the chessboard to update
     return true;
   };
 
-  if (!isSessionValid()) {
-    return (
-      <div className="flex flex-col items-center gap-6 p-4">
-        <div className="w-full max-w-md">
-          <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-            <span className="text-sm font-semibold">⚠️ Session Expired</span>
-            <p className="text-xs">Please refresh to start a new game session</p>
-          </div>
-        </div>
-      </div>
-    );
-  }
+  // Renew the session without leaving the board; the wallet signs only the new session key
+  const renewSession = async () => {
+    setIsRenewing(true);
+    try {
+      await session.renew();
+    } catch (error) {
+      console.error('Failed to renew session:', error);
+      toastError(error, 'Session not renewed');
+    } finally {
+      setIsRenewing(false);
+    }
+  };
 
   return (
     <div className="flex flex-col items-center gap-6 p-4">
@@ -342,21 +398,49 @@ export default function ChessBoardPaymaster({ gameId, player1, player2 }: ChessB
             <span className="text-sm font-semibold">🔄 Gasless Mode Active</span>
             <p className="text-xs">No gas fees for captures!</p>
           </div>
-          {isSyncing && (
+          {(pendingGame || !stream.isConnected) && (
             <div className="text-xs bg-white/50 px-2 py-1 rounded animate-pulse">
-              Syncing...
+              {stream.isConnected ? 'Syncing...' : 'Reconnecting...'}
             </div>
           )}
         </div>
 
+        {isPlayer && !isGameOver && session.status !== 'active' && (
+          <div
+            className={`mb-4 px-4 py-3 rounded border flex justify-between items-center gap-2 ${
+              session.status === 'expiring'
+                ? 'bg-yellow-50 border-yellow-400 text-yellow-800'
+                : 'bg-red-100 border-red-400 text-red-700'
+            }`}
+          >
+            <div>
+              <span className="text-sm font-semibold">
+                {session.status === 'expiring' ? '⏳ Session expiring soon' : '⚠️ Session expired'}
+              </span>
+              <p className="text-xs">
+                {session.status === 'expiring'
+                  ? `Ends in ${Math.ceil(session.timeLeft / 60000)} min. Renew to keep playing.`
+                  : 'Renew your session to keep making moves.'}
+              </p>
+            </div>
+            <button
+              onClick={renewSession}
+              disabled={isRenewing}
+              className="bg-white border border-current px-3 py-1 rounded text-xs font-semibold hover:bg-white/70 disabled:opacity-50"
+            >
+              {isRenewing ? 'Renewing...' : 'Renew'}
+            </button>
+          </div>
+        )}
+
         <div className="mb-4 flex justify-between text-sm font-semibold">
           <div className="flex flex-col">
             <span>Player 1 {address === player1 && '(You)'}</span>
-            <span className="text-green-600">${player1Balance.toFixed(2)} cUSD</span>
+            <BalanceDisplay balance={balances.player1Balance} pending={player1Pending} />
           </div>
           <div className="flex flex-col text-right">
             <span>Player 2 {address === player2 && '(You)'}</span>
-            <span className="text-green-600">${player2Balance.toFixed(2)} cUSD</span>
+            <BalanceDisplay balance={balances.player2Balance} pending={player2Pending} />
           </div>
         </div>
 
@@ -370,11 +454,118 @@ export default function ChessBoardPaymaster({ gameId, player1, player2 }: ChessB
         ))}
 
         <ChessboardWrapper
-          position={game.fen()}
+          position={reviewPly === null ? game.fen() : getReviewPosition(history, reviewPly)}
           onPieceDrop={handlePieceDrop}
           boardOrientation={address === player1 ? 'white' : 'black'}
+          readOnly={reviewPly !== null}
+          lastMove={history[(reviewPly ?? history.length) - 1]}
         />
 
+        <div className="mt-4">
+          <MoveList
+            history={history}
+            timestamps={stream.moves.map(move => move.timestamp)}
+            reviewPly={reviewPly}
+            onNavigate={setReviewPly}
+            captureStatuses={captureOutbox.statusByMove}
+          />
+        </div>
+
+        {failedCaptures.length > 0 && (
+          <div className="mt-4 bg-red-50 border border-red-300 text-red-700 px-4 py-3 rounded text-sm">
+            <div className="font-semibold mb-2">Some captures could not be paid out</div>
+            {failedCaptures.map(entry => (
+              <div key={entry.moveNumber} className="flex items-center justify-between gap-2 py-1">
+                <span>
+                  Move {entry.moveNumber}: +${PIECE_VALUES[entry.piece as PieceSymbol].toFixed(2)}
+                  {entry.lastError && <span className="block text-xs text-red-500">{entry.lastError}</span>}
+                </span>
+                <button
+                  onClick={() => captureOutbox.retry(entry.moveNumber)}
+                  className="bg-red-600 text-white px-3 py-1 rounded text-xs hover:bg-red-700"
+                >
+                  Retry
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {drawOffer && !isGameOver && (
+          <div className="mt-4 bg-purple-50 border border-purple-300 text-purple-800 px-4 py-3 rounded text-center">
+            {isOfferFromMe ? (
+              <div className="text-sm">Draw offered. Waiting for your opponent to answer...</div>
+            ) : (
+              <>
+                <div className="font-semibold">Your opponent offers a draw</div>
+                {isPlayer && (
+                  <div className="mt-2 flex justify-center gap-2">
+                    <button
+                      onClick={() => submitAction('accept_draw')}
+                      disabled={!!pendingAction}
+                      className="bg-purple-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      {pendingAction === 'accept_draw' ? 'Accepting...' : 'Accept draw'}
+                    </button>
+                    <button
+                      onClick={() => submitAction('decline_draw')}
+                      disabled={!!pendingAction}
+                      className="bg-white border border-purple-300 px-4 py-2 rounded-lg text-sm hover:bg-purple-100 disabled:opacity-50"
+                    >
+                      {pendingAction === 'decline_draw' ? 'Declining...' : 'Decline'}
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {winner && (
+          <div className="mt-4 bg-blue-50 border border-blue-300 text-blue-800 px-4 py-3 rounded text-center">
+            <div className="font-semibold">
+              {isCheckmate ? 'Checkmate!' : isWinner ? 'Your opponent resigned.' : resignedBy?.toLowerCase() === address?.toLowerCase() ? 'You resigned.' : 'A player resigned.'}{' '}
+              {isWinner ? 'You won!' : 'Opponent won.'}
+            </div>
+            <p className="text-xs mt-1">
+              {settlementState === 'settling' && 'Settling escrow on-chain...'}
+              {settlementState === 'settled' && 'Escrow paid out. Loading settlement...'}
+              {settlementState === 'failed' && 'Settlement failed. Please try again.'}
+              {settlementState === 'idle' && 'Waiting for the escrow to be settled.'}
+            </p>
+            {(settlementState === 'idle' || settlementState === 'failed') && (
+              <button
+                onClick={() => settleGame(false)}
+                className="mt-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700"
+              >
+                Settle game & pay out
+              </button>
+            )}
+          </div>
+        )}
+
+        {drawReason && (
+          <div className="mt-4 bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded text-center">
+            <div className="font-semibold">
+              Draw - {DRAW_REASON_LABELS[drawReason]}
+            </div>
+            <p className="text-xs mt-1">
+              {settlementState === 'settling' && 'Returning balances on-chain...'}
+              {settlementState === 'settled' && 'Balances returned. Loading settlement...'}
+              {settlementState === 'failed' && 'Settlement failed. Please try again.'}
+              {settlementState === 'idle' && 'Each player keeps their current balance.'}
+            </p>
+            {(settlementState === 'idle' || settlementState === 'failed') && (
+              <button
+                onClick={() => settleGame(true)}
+                className="mt-2 bg-yellow-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-yellow-700"
+              >
+                Settle draw & return balances
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="mt-4 text-center text-sm">
           {isProcessing || loading ? (
             <span className="text-yellow-600 font-bold">Processing gasless transaction...</span>
@@ -384,6 +575,25 @@ export default function ChessBoardPaymaster({ gameId, player1, player2 }: ChessB
             <span className="text-gray-500">Opponent's turn...</span>
           )}
         </div>
+
+        {isPlayer && !isGameOver && (
+          <div className="mt-4 flex justify-center gap-2">
+            <button
+              onClick={() => submitAction('offer_draw')}
+              disabled={!!pendingAction || !!drawOffer}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm hover:bg-gray-200 disabled:opacity-50"
+            >
+              {pendingAction === 'offer_draw' ? 'Offering...' : 'Offer draw'}
+            </button>
+            <button
+              onClick={() => submitAction('resign')}
+              disabled={!!pendingAction}
+              className="bg-red-100 text-red-700 px-4 py-2 rounded-lg text-sm hover:bg-red-200 disabled:opacity-50"
+            >
+              {pendingAction === 'resign' ? 'Resigning...' : 'Resign'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
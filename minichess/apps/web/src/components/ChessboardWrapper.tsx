@@ -1,40 +1,185 @@
 'use client';
 
+import { CSSProperties, useEffect, useMemo, useState } from 'react';
 import { Chessboard } from 'react-chessboard';
-import type { PieceDropHandlerArgs } from 'react-chessboard';
+import type { PieceDropHandlerArgs, SquareHandlerArgs } from 'react-chessboard';
+import { Chess, Move, Square } from 'chess.js';
 
 interface ChessboardWrapperProps {
   position: string;
-  onPieceDrop: (sourceSquare: string, targetSquare: string, piece: string) => boolean;
+  onPieceDrop: (sourceSquare: string, targetSquare: string, piece: string, promotion?: string) => boolean;
   boardOrientation: 'white' | 'black';
+  readOnly?: boolean; // e.g. while reviewing an earlier position
+  lastMove?: { from: string; to: string } | null; // Highlighted move that led to this position
 }
 
-export default function ChessboardWrapper({ position, onPieceDrop, boardOrientation }: ChessboardWrapperProps) {
-  const handlePieceDrop = ({ piece, sourceSquare, targetSquare }: PieceDropHandlerArgs): boolean => {
-    console.log('ChessboardWrapper: Piece drop event', {
-      piece: piece.pieceType,
-      sourceSquare,
-      targetSquare
-    });
-
-    if (!targetSquare) {
-      console.log('ChessboardWrapper: No target square, returning false');
+const PROMOTION_PIECES = [
+  { piece: 'q', name: 'Queen', white: '♕', black: '♛' },
+  { piece: 'r', name: 'Rook', white: '♖', black: '♜' },
+  { piece: 'b', name: 'Bishop', white: '♗', black: '♝' },
+  { piece: 'n', name: 'Knight', white: '♘', black: '♞' }
+];
+
+const LAST_MOVE_STYLE: CSSProperties = { backgroundColor: 'rgba(255, 213, 0, 0.4)' };
+const SELECTED_STYLE: CSSProperties = { backgroundColor: 'rgba(20, 85, 255, 0.4)' };
+const LEGAL_MOVE_STYLE: CSSProperties = { background: 'radial-gradient(circle, rgba(0, 0, 0, 0.25) 22%, transparent 24%)' };
+const LEGAL_CAPTURE_STYLE: CSSProperties = { background: 'radial-gradient(circle, transparent 58%, rgba(0, 0, 0, 0.25) 60%)' };
+const CHECK_STYLE: CSSProperties = { background: 'radial-gradient(circle, rgba(255, 0, 0, 0.9) 0%, rgba(231, 0, 0, 0.5) 45%, transparent 80%)' };
+
+/**
+ * Square of the king that is in check, if any
+ */
+function findCheckedKing(chess: Chess): string | null {
+  if (!chess.inCheck()) return null;
+
+  for (const row of chess.board()) {
+    for (const piece of row) {
+      if (piece?.type === 'k' && piece.color === chess.turn()) return piece.square;
+    }
+  }
+  return null;
+}
+
+export default function ChessboardWrapper({
+  position,
+  onPieceDrop,
+  boardOrientation,
+  readOnly = false,
+  lastMove = null
+}: ChessboardWrapperProps) {
+  // Promotion move waiting for the player to pick a piece
+  const [pendingPromotion, setPendingPromotion] = useState<{
+    sourceSquare: string;
+    targetSquare: string;
+    piece: string;
+  } | null>(null);
+  // Piece picked up by tapping, waiting for a tap on its destination
+  const [selected, setSelected] = useState<{ square: string; pieceType: string } | null>(null);
+
+  const chess = useMemo(() => {
+    try {
+      return new Chess(position);
+    } catch {
+      return null;
+    }
+  }, [position]);
+
+  const legalMovesFrom = (square: string): Move[] =>
+    chess ? chess.moves({ square: square as Square, verbose: true }) : [];
+
+  const selectedMoves = selected ? legalMovesFrom(selected.square) : [];
+
+  // A new position (our move, the opponent's, or a reviewed one) drops the selection
+  useEffect(() => {
+    setSelected(null);
+  }, [position]);
+
+  // Hand a move to the board owner, asking for the promotion piece first if needed
+  const submitMove = (sourceSquare: string, targetSquare: string, pieceType: string): boolean => {
+    const isPromotion = legalMovesFrom(sourceSquare).some(move => move.to === targetSquare && !!move.promotion);
+
+    // Ask which piece to promote to; the pawn snaps back until one is chosen
+    if (isPromotion) {
+      setPendingPromotion({ sourceSquare, targetSquare, piece: pieceType });
       return false;
     }
 
-    const result = onPieceDrop(sourceSquare, targetSquare, piece.pieceType);
-    console.log('ChessboardWrapper: onPieceDrop result:', result);
-    return result;
+    return onPieceDrop(sourceSquare, targetSquare, pieceType);
+  };
+
+  const handlePieceDrop = ({ piece, sourceSquare, targetSquare }: PieceDropHandlerArgs): boolean => {
+    if (!targetSquare || readOnly) return false;
+
+    setSelected(null);
+    return submitMove(sourceSquare, targetSquare, piece.pieceType);
+  };
+
+  // Tap a piece to select it, then tap one of its highlighted destinations
+  const handleSquareClick = ({ piece, square }: SquareHandlerArgs) => {
+    if (readOnly || pendingPromotion) return;
+
+    if (selected && selectedMoves.some(move => move.to === square)) {
+      setSelected(null);
+      submitMove(selected.square, square, selected.pieceType);
+      return;
+    }
+
+    // Select a piece that can move, or clear the selection
+    if (piece && square !== selected?.square && legalMovesFrom(square).length > 0) {
+      setSelected({ square, pieceType: piece.pieceType });
+    } else {
+      setSelected(null);
+    }
+  };
+
+  const squareStyles: Record<string, CSSProperties> = {};
+  if (lastMove) {
+    squareStyles[lastMove.from] = LAST_MOVE_STYLE;
+    squareStyles[lastMove.to] = LAST_MOVE_STYLE;
+  }
+  const checkedKing = chess && findCheckedKing(chess);
+  if (checkedKing) {
+    squareStyles[checkedKing] = { ...squareStyles[checkedKing], ...CHECK_STYLE };
+  }
+  if (selected) {
+    squareStyles[selected.square] = SELECTED_STYLE;
+    for (const move of selectedMoves) {
+      squareStyles[move.to] = {
+        ...squareStyles[move.to],
+        ...(move.captured ? LEGAL_CAPTURE_STYLE : LEGAL_MOVE_STYLE)
+      };
+    }
+  }
+
+  const handlePromotion = (promotion: string) => {
+    if (!pendingPromotion) return;
+
+    const { sourceSquare, targetSquare, piece } = pendingPromotion;
+    setPendingPromotion(null);
+    onPieceDrop(sourceSquare, targetSquare, piece, promotion);
   };
 
+  const isWhitePromotion = pendingPromotion?.piece.startsWith('w');
+
   return (
-    <Chessboard
-      options={{
-        position,
-        onPieceDrop: handlePieceDrop,
-        boardOrientation,
-        allowDragging: true
-      }}
-    />
+    <div className="relative">
+      <Chessboard
+        options={{
+          position,
+          onPieceDrop: handlePieceDrop,
+          onSquareClick: handleSquareClick,
+          squareStyles,
+          boardOrientation,
+          allowDragging: !pendingPromotion && !readOnly
+        }}
+      />
+
+      {pendingPromotion && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/40">
+          <div className="bg-white rounded-lg shadow-lg p-4 text-center">
+            <div className="text-sm font-semibold mb-3">Promote pawn to</div>
+            <div className="flex gap-2">
+              {PROMOTION_PIECES.map(({ piece, name, white, black }) => (
+                <button
+                  key={piece}
+                  onClick={() => handlePromotion(piece)}
+                  title={name}
+                  aria-label={`Promote to ${name}`}
+                  className="w-14 h-14 text-4xl leading-none rounded-lg border border-gray-200 hover:bg-gray-100"
+                >
+                  {isWhitePromotion ? white : black}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setPendingPromotion(null)}
+              className="mt-3 text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
   );
-}
\ No newline at end of file
+}
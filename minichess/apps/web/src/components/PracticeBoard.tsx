@@ -4,6 +4,7 @@ import { useState } from 'react';
 import dynamic from 'next/dynamic';
 import { usePracticeGame } from '@/hooks/usePracticeGame';
 import PracticeStats from '@/components/practice-stats';
+import { MoveList, getReviewPosition } from '@/components/move-list';
 
 // Dynamic import with no SSR
 const ChessboardWrapper = dynamic(() => import('@/components/ChessboardWrapper'), {
@@ -14,10 +15,18 @@ const ChessboardWrapper = dynamic(() => import('@/components/ChessboardWrapper')
 export default function PracticeBoard() {
   const { game, isThinking, gameStats, startNewGame, makePlayerMove } = usePracticeGame();
   const [showStats, setShowStats] = useState(false);
+  // Number of plies shown while reviewing earlier moves, null when playing
+  const [reviewPly, setReviewPly] = useState<number | null>(null);
+  const history = game.history({ verbose: true });
 
-  const handlePieceDrop = (sourceSquare: string, targetSquare: string, piece: string): boolean => {
+  const handleNewGame = () => {
+    setReviewPly(null);
+    startNewGame();
+  };
+
+  const handlePieceDrop = (sourceSquare: string, targetSquare: string, piece: string, promotion?: string): boolean => {
     if (!targetSquare) return false;
-    return makePlayerMove(sourceSquare, targetSquare);
+    return makePlayerMove(sourceSquare, targetSquare, promotion);
   };
 
   const formatTime = (startTime: number) => {
@@ -50,7 +59,7 @@ export default function PracticeBoard() {
               {showStats ? 'Hide Stats' : 'Show Stats'}
             </button>
             <button
-              onClick={startNewGame}
+              onClick={handleNewGame}
               className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm"
             >
               New Game
@@ -60,7 +69,7 @@ export default function PracticeBoard() {
         <div className="mb-4 flex justify-between items-center">
           <h2 className="text-xl font-semibold">Practice Mode</h2>
           <button 
-            onClick={startNewGame}
+            onClick={handleNewGame}
             className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm"
           >
             New Game
@@ -76,11 +85,21 @@ export default function PracticeBoard() {
         </div>
 
         <ChessboardWrapper
-          position={game.fen()}
+          position={reviewPly === null ? game.fen() : getReviewPosition(history, reviewPly)}
           onPieceDrop={handlePieceDrop}
           boardOrientation='white'
+          readOnly={reviewPly !== null}
+          lastMove={history[(reviewPly ?? history.length) - 1]}
         />
 
+        <div className="mt-4">
+          <MoveList
+            history={history}
+            reviewPly={reviewPly}
+            onNavigate={setReviewPly}
+          />
+        </div>
+
         <div className="mt-4 text-center text-sm">
           <span className={`font-bold ${
             game.isCheckmate() || game.isDraw() 
@@ -96,7 +115,7 @@ export default function PracticeBoard() {
         {game.isGameOver() && (
           <div className="mt-4 text-center">
             <button 
-              onClick={startNewGame}
+              onClick={handleNewGame}
               className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg font-semibold"
             >
               Play Again
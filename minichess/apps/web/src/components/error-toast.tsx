@@ -0,0 +1,20 @@
+'use client';
+
+import toast from 'react-hot-toast';
+import { decodeMiniChessError } from '@/lib/minichess-errors';
+
+/**
+ * Show a failure as a toast: what failed, why, and what to do about it
+ */
+export function toastError(error: unknown, title: string) {
+  const { message, remedy } = decodeMiniChessError(error);
+
+  toast.error(
+    <div className="text-sm">
+      <div className="font-semibold">{title}</div>
+      <div>{message}</div>
+      {remedy && <div className="mt-1 text-xs text-gray-500">{remedy}</div>}
+    </div>,
+    { duration: 6000 }
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { LocalAccount, createWalletClient, custom, recoverMessageAddress } from 'viem';
+import {
+  GameSession,
+  SESSION_DURATION,
+  getSessionStatus,
+  loadSession,
+  removeSession,
+  removeSessionsFor,
+  saveSession
+} from '@/lib/game-session';
+import { NO_SESSION_KEY, SessionKeyAuthorization, buildSessionKeyMessageHash, buildSessionMessageHash } from '@/lib/move-signature';
+import { createSessionKey, loadSessionKey, removeSessionKey, removeSessionKeysFor } from '@/lib/session-key';
+import { useNetwork } from '@/hooks/useNetwork';
+
+const STATUS_TICK = 15000; // ms between expiry checks
+
+const sessionId = (address: string, gameId: number, chainId: number) =>
+  `${chainId}:${address.toLowerCase()}:${gameId}`;
+
+interface GameSessionContextValue {
+  address?: string;
+  chainId: number;
+  now: number;
+  /** Sessions loaded so far, by sessionId */
+  sessions: Record<string, GameSession | null>;
+  /** Load the stored session for a game into context state */
+  track: (gameId: number) => void;
+  /** Sign AUTHORIZE_SESSION for a game and a new session key, starting a fresh session */
+  authorize: (gameId: number) => Promise<GameSession>;
+  /** Sign AUTHORIZE_SESSION_KEY for a new session key, extending the game's existing session */
+  renewSession: (gameId: number) => Promise<GameSession>;
+  /** Session key that can sign for a game without a wallet prompt, or null */
+  getSessionSigner: (gameId: number) => Promise<SessionSigner | null>;
+  revoke: (gameId: number) => void;
+  revokeAll: () => void;
+}
+
+function dropSessionsFor(sessions: Record<string, GameSession | null>, address: string) {
+  return Object.fromEntries(
+    Object.entries(sessions).filter(([id]) => !id.includes(`:${address.toLowerCase()}:`))
+  );
+}
+
+export interface SessionSigner {
+  account: LocalAccount;
+  authorization: SessionKeyAuthorization;
+}
+
+const GameSessionContext = createContext<GameSessionContextValue | null>(null);
+
+/**
+ * Game sessions for the connected wallet, keyed by (address, gameId, chainId)
+ * Sessions for an address are revoked when it disconnects or the wallet
+ * switches to another account
+ */
+export function GameSessionProvider({ children }: { children: React.ReactNode }) {
+  const { address, status } = useAccount();
+  const { chain, chainId } = useNetwork();
+  const [sessions, setSessions] = useState<Record<string, GameSession | null>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const previousAddress = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), STATUS_TICK);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Logout or account switch ends the previous account's sessions
+  useEffect(() => {
+    if (status === 'connecting' || status === 'reconnecting') return;
+
+    const previous = previousAddress.current;
+    if (previous && previous.toLowerCase() !== address?.toLowerCase()) {
+      console.log('[Game Session] Revoking sessions for', previous);
+      removeSessionsFor(previous);
+      removeSessionKeysFor(previous).catch(error => console.warn('[Game Session] Could not remove session keys:', error));
+      setSessions(prev => dropSessionsFor(prev, previous));
+    }
+
+    previousAddress.current = address;
+  }, [address, status]);
+
+  const track = useCallback((gameId: number) => {
+    if (!address || !gameId || isNaN(gameId)) return;
+    const id = sessionId(address, gameId, chainId);
+    setSessions(prev => id in prev ? prev : { ...prev, [id]: loadSession(address, gameId, chainId) });
+  }, [address, chainId]);
+
+  // Have the connected wallet sign a message hash, checking it signed as that account
+  const signAsPlayer = useCallback(async (player: `0x${string}`, messageHash: `0x${string}`) => {
+    const walletClient = createWalletClient({
+      account: player,
+      chain,
+      transport: custom(window.ethereum)
+    });
+
+    const signature = await walletClient.signMessage({
+      account: player,
+      message: { raw: messageHash }
+    });
+
+    const signer = await recoverMessageAddress({ message: { raw: messageHash }, signature });
+    if (signer.toLowerCase() !== player.toLowerCase()) {
+      throw new Error('Session was signed by a different account');
+    }
+    return signature;
+  }, [chain]);
+
+  const storeSession = useCallback((session: GameSession) => {
+    saveSession(session);
+    setSessions(prev => ({ ...prev, [sessionId(session.address, session.gameId, session.chainId)]: session }));
+    setNow(Date.now());
+    console.log('[Game Session] Session for game', session.gameId, 'valid until', new Date(session.validUntil).toLocaleTimeString());
+    return session;
+  }, []);
+
+  const authorize = useCallback(async (gameId: number) => {
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
+
+    const validUntil = Date.now() + SESSION_DURATION;
+    const account = await createGameSessionKey(address, gameId, chainId);
+    const grant = account ? { sessionKey: account.address, validUntil: Math.floor(validUntil / 1000) } : NO_SESSION_KEY;
+
+    // The only wallet prompt of the session: the contract checks this signature
+    // and the server accepts the session key it names
+    const signature = await signAsPlayer(address, buildSessionMessageHash(gameId, grant, chainId));
+
+    return storeSession({
+      address,
+      gameId,
+      chainId,
+      signature,
+      sessionKey: account ? { ...grant, kind: 'session', signature } : undefined,
+      createdAt: Date.now(),
+      validUntil
+    });
+  }, [address, chainId, signAsPlayer, storeSession]);
+
+  const renewSession = useCallback(async (gameId: number) => {
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
+
+    const current = loadSession(address, gameId, chainId);
+    if (!current) {
+      throw new Error('No session to renew for this game');
+    }
+
+    // The game is already created or joined on-chain, so only the new key needs signing
+    const validUntil = Date.now() + SESSION_DURATION;
+    const account = await createGameSessionKey(address, gameId, chainId);
+    if (!account) {
+      return storeSession({ ...current, sessionKey: undefined, validUntil });
+    }
+
+    const grant = { sessionKey: account.address, validUntil: Math.floor(validUntil / 1000) };
+    const signature = await signAsPlayer(address, buildSessionKeyMessageHash(gameId, grant, chainId));
+
+    return storeSession({ ...current, sessionKey: { ...grant, kind: 'renewal', signature }, validUntil });
+  }, [address, chainId, signAsPlayer, storeSession]);
+
+  const getSessionSigner = useCallback(async (gameId: number) => {
+    if (!address) return null;
+
+    const session = loadSession(address, gameId, chainId);
+    if (!session?.sessionKey || getSessionStatus(session) === 'expired') return null;
+
+    const account = await loadSessionKey(address, gameId, chainId);
+    if (!account || account.address.toLowerCase() !== session.sessionKey.sessionKey.toLowerCase()) return null;
+
+    return { account, authorization: session.sessionKey };
+  }, [address, chainId]);
+
+  const revoke = useCallback((gameId: number) => {
+    if (!address) return;
+    removeSession(address, gameId, chainId);
+    removeSessionKey(address, gameId, chainId).catch(error => console.warn('[Game Session] Could not remove session key:', error));
+    setSessions(prev => ({ ...prev, [sessionId(address, gameId, chainId)]: null }));
+  }, [address, chainId]);
+
+  const revokeAll = useCallback(() => {
+    if (!address) return;
+    removeSessionsFor(address);
+    removeSessionKeysFor(address).catch(error => console.warn('[Game Session] Could not remove session keys:', error));
+    setSessions(prev => dropSessionsFor(prev, address));
+  }, [address]);
+
+  const value = useMemo(
+    () => ({ address, chainId, now, sessions, track, authorize, renewSession, getSessionSigner, revoke, revokeAll }),
+    [address, chainId, now, sessions, track, authorize, renewSession, getSessionSigner, revoke, revokeAll]
+  );
+
+  return <GameSessionContext.Provider value={value}>{children}</GameSessionContext.Provider>;
+}
+
+/**
+ * Create a new session key for a game, to be named in its AUTHORIZE_SESSION or AUTHORIZE_SESSION_KEY signature
+ * Returns null, so moves fall back to wallet signatures, if the key cannot be stored
+ */
+async function createGameSessionKey(address: `0x${string}`, gameId: number, chainId: number): Promise<LocalAccount | null> {
+  try {
+    return await createSessionKey(address, gameId, chainId);
+  } catch (error) {
+    console.warn('[Game Session] Session key unavailable, moves will be signed by the wallet:', error);
+    return null;
+  }
+}
+
+/**
+ * Session state for the connected wallet, and for one game when gameId is given
+ * Renewing signs only AUTHORIZE_SESSION_KEY for a new key and extends the session in place
+ */
+export function useGameSession(gameId?: number) {
+  const context = useContext(GameSessionContext);
+  if (!context) {
+    throw new Error('useGameSession must be used inside GameSessionProvider');
+  }
+
+  const { address, chainId, track, renewSession, sessions, now } = context;
+
+  useEffect(() => {
+    if (gameId !== undefined) track(gameId);
+  }, [gameId, track]);
+
+  const renew = useCallback(() => {
+    if (gameId === undefined) throw new Error('No game to renew a session for');
+    return renewSession(gameId);
+  }, [renewSession, gameId]);
+
+  const session = address && gameId !== undefined ? sessions[sessionId(address, gameId, chainId)] ?? null : null;
+
+  return {
+    ...context,
+    session,
+    status: getSessionStatus(session, now),
+    timeLeft: session ? Math.max(0, session.validUntil - now) : 0,
+    renew
+  };
+}
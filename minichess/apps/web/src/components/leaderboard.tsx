@@ -1,18 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useAccount } from 'wagmi';
 import { useGameContract } from '../hooks/useGameContract';
+import type { PlayerStats as ContractPlayerStats } from '../lib/minichess-client';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Trophy, Medal, Award, TrendingUp, Users, DollarSign } from 'lucide-react';
 
-interface PlayerStats {
+interface PlayerStats extends ContractPlayerStats {
   address: string;
-  gamesPlayed: bigint;
-  gamesWon: bigint;
-  gamesLost: bigint;
-  totalEarned: bigint;
-  totalLost: bigint;
-  winRate: bigint;
 }
 
 interface LeaderboardEntry {
@@ -21,6 +16,7 @@ interface LeaderboardEntry {
   gamesPlayed: string;
   gamesWon: string;
   gamesLost: string;
+  gamesDrawn: string;
   winRate: string;
   totalEarned: string;
   totalLost: string;
@@ -58,17 +54,7 @@ export function Leaderboard() {
       const playerStatsPromises = knownPlayerAddresses.map(async (playerAddress) => {
         try {
           const stats = await getPlayerStats(playerAddress);
-          // Type assertion to handle the unknown return type from contract
-          const statsArray = stats as unknown as bigint[];
-          return {
-            address: playerAddress,
-            gamesPlayed: statsArray[0] || 0n,
-            gamesWon: statsArray[1] || 0n,
-            gamesLost: statsArray[2] || 0n,
-            totalEarned: statsArray[3] || 0n,
-            totalLost: statsArray[4] || 0n,
-            winRate: statsArray[5] || 0n
-          };
+          return { address: playerAddress, ...stats };
         } catch (error) {
           console.error(`Failed to fetch stats for ${playerAddress}:`, error);
           // Return default stats for players who haven't played yet
@@ -79,7 +65,8 @@ export function Leaderboard() {
             gamesLost: 0n,
             totalEarned: 0n,
             totalLost: 0n,
-            winRate: 0n
+            winRate: 0n,
+            gamesDrawn: 0n
           };
         }
       });
@@ -115,6 +102,7 @@ export function Leaderboard() {
         gamesPlayed: player.gamesPlayed.toString(),
         gamesWon: player.gamesWon.toString(),
         gamesLost: player.gamesLost.toString(),
+        gamesDrawn: player.gamesDrawn.toString(),
         winRate: player.winRate.toString(),
         totalEarned: formatEther(player.totalEarned),
         totalLost: formatEther(player.totalLost),
@@ -225,7 +213,7 @@ export function Leaderboard() {
                 <th className="text-left py-3 px-2">Player</th>
                 <th className="text-center py-3 px-2">Win Rate</th>
                 <th className="text-center py-3 px-2">Games</th>
-                <th className="text-center py-3 px-2">W/L</th>
+                <th className="text-center py-3 px-2">W/D/L</th>
                 <th className="text-center py-3 px-2">Net Profit</th>
               </tr>
             </thead>
@@ -270,6 +258,8 @@ export function Leaderboard() {
                     <div className="flex justify-center gap-2 text-sm">
                       <span className="text-green-600">{entry.gamesWon}</span>
                       <span className="text-gray-400">/</span>
+                      <span className="text-yellow-600">{entry.gamesDrawn}</span>
+                      <span className="text-gray-400">/</span>
                       <span className="text-red-600">{entry.gamesLost}</span>
                     </div>
                   </td>
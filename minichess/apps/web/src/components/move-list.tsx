@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { DEFAULT_POSITION, Move } from 'chess.js';
+import { PIECE_VALUES } from '@/lib/piece-values';
+import type { CaptureStatus } from '@/lib/capture-outbox';
+
+interface MoveListProps {
+  history: Move[]; // chess.js verbose history
+  timestamps?: number[]; // Per-ply timestamps, e.g. GameMove.timestamp
+  reviewPly: number | null; // Plies shown while reviewing, null when live
+  onNavigate: (ply: number | null) => void;
+  captureStatuses?: Record<number, CaptureStatus>; // On-chain capture status by ply (move number)
+}
+
+/**
+ * Position after the given number of plies, for showing a reviewed move
+ */
+export function getReviewPosition(history: Move[], ply: number): string {
+  if (ply === 0) {
+    return history[0]?.before ?? DEFAULT_POSITION;
+  }
+  return history[Math.min(ply, history.length) - 1].after;
+}
+
+const CAPTURE_STATUS_STYLES: Record<CaptureStatus, { label: string; className: string }> = {
+  pending: { label: 'pending', className: 'bg-yellow-100 text-yellow-700' },
+  confirmed: { label: 'paid', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'failed', className: 'bg-red-100 text-red-700' }
+};
+
+const formatMoveTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Numbered SAN move pairs with review navigation
+ * Selecting a move reports its ply count; selecting the last move returns to live
+ */
+export function MoveList({ history, timestamps, reviewPly, onNavigate, captureStatuses }: MoveListProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const currentPly = reviewPly ?? history.length;
+  const isLive = reviewPly === null;
+
+  // Keep the newest move in view while following the game
+  useEffect(() => {
+    if (isLive && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [history.length, isLive]);
+
+  const goTo = (ply: number) => {
+    const clamped = Math.max(0, Math.min(ply, history.length));
+    onNavigate(clamped === history.length ? null : clamped);
+  };
+
+  const rows: { number: number; white: number; black?: number }[] = [];
+  for (let index = 0; index < history.length; index += 2) {
+    rows.push({
+      number: index / 2 + 1,
+      white: index,
+      black: index + 1 < history.length ? index + 1 : undefined
+    });
+  }
+
+  const renderMove = (index: number) => {
+    const move = history[index];
+    const ply = index + 1;
+    const capturedValue = move.captured ? PIECE_VALUES[move.captured] : 0;
+    const captureStatus = captureStatuses?.[ply];
+
+    return (
+      <button
+        onClick={() => goTo(ply)}
+        className={`flex-1 flex items-baseline gap-1 px-2 py-1 rounded text-left ${
+          ply === currentPly ? 'bg-blue-100 font-semibold' : 'hover:bg-gray-100'
+        }`}
+      >
+        <span className="font-mono">{move.san}</span>
+        {capturedValue > 0 && (
+          <span className="text-xs text-green-600">+${capturedValue.toFixed(2)}</span>
+        )}
+        {captureStatus && (
+          <span className={`text-[10px] px-1 rounded ${CAPTURE_STATUS_STYLES[captureStatus].className}`}>
+            {CAPTURE_STATUS_STYLES[captureStatus].label}
+          </span>
+        )}
+        {timestamps?.[index] && (
+          <span className="ml-auto text-[10px] text-gray-400">{formatMoveTime(timestamps[index])}</span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="w-full bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <span className="text-sm font-semibold">Moves</span>
+        {!isLive && (
+          <button
+            onClick={() => onNavigate(null)}
+            className="text-xs bg-blue-600 text-white px-2 py-1 rounded hover:bg-blue-700"
+          >
+            Back to live
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className="max-h-48 overflow-y-auto px-2 py-1 text-sm">
+        {rows.length === 0 ? (
+          <div className="text-center text-gray-400 py-2">No moves yet</div>
+        ) : (
+          rows.map(row => (
+            <div key={row.number} className="flex items-center gap-1">
+              <span className="w-8 text-gray-400 text-right">{row.number}.</span>
+              {renderMove(row.white)}
+              {row.black !== undefined ? renderMove(row.black) : <span className="flex-1" />}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex justify-center gap-2 px-3 py-2 border-t border-gray-200">
+        <button onClick={() => goTo(0)} disabled={currentPly === 0} aria-label="First move" className="px-3 py-1 rounded hover:bg-gray-100 disabled:opacity-30">⏮</button>
+        <button onClick={() => goTo(currentPly - 1)} disabled={currentPly === 0} aria-label="Previous move" className="px-3 py-1 rounded hover:bg-gray-100 disabled:opacity-30">◀</button>
+        <button onClick={() => goTo(currentPly + 1)} disabled={isLive} aria-label="Next move" className="px-3 py-1 rounded hover:bg-gray-100 disabled:opacity-30">▶</button>
+        <button onClick={() => goTo(history.length)} disabled={isLive} aria-label="Last move" className="px-3 py-1 rounded hover:bg-gray-100 disabled:opacity-30">⏭</button>
+      </div>
+    </div>
+  );
+}
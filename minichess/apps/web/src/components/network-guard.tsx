@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount, useChainId, useSwitchChain } from 'wagmi';
+import { UserRejectedRequestError, createWalletClient, custom } from 'viem';
+import { DEFAULT_CHAIN_ID, getNetwork, isSupportedChain } from '@/lib/networks';
+
+/**
+ * Blocks its children while the wallet is on a network MiniChess is not deployed to
+ * Moves are signed for, and the server verifies them on, the wallet's network;
+ * the switch button offers the default network
+ */
+export function NetworkGuard({ children }: { children: React.ReactNode }) {
+  const { isConnected, chainId: walletChainId } = useAccount();
+  const chainId = useChainId();
+  const { switchChainAsync, isPending } = useSwitchChain();
+  const [isMiniPay, setIsMiniPay] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const expected = getNetwork(DEFAULT_CHAIN_ID);
+
+  useEffect(() => {
+    setIsMiniPay(!!window.ethereum?.isMiniPay);
+  }, []);
+
+  // useChainId only follows configured chains, so check the wallet's own chain as well
+  const isWrongNetwork = isConnected && (!isSupportedChain(walletChainId) || walletChainId !== chainId);
+  if (!isWrongNetwork) return <>{children}</>;
+
+  const currentName = isSupportedChain(walletChainId) ? getNetwork(walletChainId).name : `chain ${walletChainId}`;
+
+  const handleSwitch = async () => {
+    setError(null);
+    try {
+      await switchChainAsync({ chainId: expected.chain.id });
+    } catch (switchError) {
+      if (switchError instanceof UserRejectedRequestError || (switchError as { code?: number })?.code === 4001) {
+        return;
+      }
+
+      // Wallets that don't know the chain yet (usually Celo Sepolia) need it added first
+      console.warn('[Network Guard] Switch failed, adding chain:', switchError);
+      try {
+        const walletClient = createWalletClient({ transport: custom(window.ethereum) });
+        await walletClient.addChain({ chain: expected.chain });
+        await switchChainAsync({ chainId: expected.chain.id });
+      } catch (addError) {
+        console.error('[Network Guard] Failed to add chain:', addError);
+        setError(`Could not switch to ${expected.name}. Please switch networks in your wallet.`);
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="bg-white shadow-lg rounded-lg p-6 max-w-md w-full text-center">
+        <h1 className="text-2xl font-bold mb-2">Wrong network</h1>
+        <p className="text-gray-600 mb-4">
+          MiniChess runs on <span className="font-semibold">{expected.name}</span>, but your wallet is on {currentName}.
+        </p>
+
+        {isMiniPay ? (
+          <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded text-sm text-left">
+            MiniPay can&apos;t switch networks from inside an app.{' '}
+            {expected.testnet
+              ? "Turn on testnet in MiniPay's developer settings, then reopen MiniChess."
+              : 'Turn off testnet in MiniPay\'s developer settings, then reopen MiniChess.'}
+          </div>
+        ) : (
+          <>
+            <button
+              onClick={handleSwitch}
+              disabled={isPending}
+              className="w-full bg-green-600 text-white px-4 py-3 rounded-lg font-semibold hover:bg-green-700 disabled:opacity-50"
+            >
+              {isPending ? 'Switching...' : `Switch to ${expected.name}`}
+            </button>
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,16 @@
 import { useEffect, useState } from 'react'
-import { useAccount, useReadContract, useConfig } from 'wagmi'
+import { useAccount, useChainId, useReadContract } from 'wagmi'
 import { formatEther } from 'viem'
-import { readContract } from 'wagmi/actions'
 import { Button } from './ui/button'
 
-import MiniChessEscrowPaymasterABI from '../contracts/MiniChessEscrowPaymaster.json'
-
-const CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`
+import { getGame, miniChessEscrowPaymasterAbi } from '../lib/minichess-client'
+import { getNetwork } from '../lib/networks'
 
 
 export function PlayerProfile() {
-  const config = useConfig()
   const { address } = useAccount()
+  const chainId = useChainId()
+  const CONTRACT_ADDRESS = getNetwork(chainId).contractAddress
   const [history, setHistory] = useState<any[]>([])
   const [loading, setLoading] = useState(true)
   const [page, setPage] = useState(0)
@@ -20,40 +19,51 @@ export function PlayerProfile() {
   // Get player stats
   const { data: statsData } = useReadContract({
     address: CONTRACT_ADDRESS,
-    abi: MiniChessEscrowPaymasterABI.abi,
+    abi: miniChessEscrowPaymasterAbi,
     functionName: 'getPlayerStats',
-    args: [address as `0x${string}`],
+    args: [address!],
     query: {
-      enabled: !!address
+      enabled: !!address && !!CONTRACT_ADDRESS
+    }
+  })
+
+  // Draws are read separately so getPlayerStats keeps its original return values
+  const { data: gamesDrawn } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: miniChessEscrowPaymasterAbi,
+    functionName: 'getPlayerDraws',
+    args: [address!],
+    query: {
+      enabled: !!address && !!CONTRACT_ADDRESS
     }
   })
 
   // Get total game count
   const { data: gameCount } = useReadContract({
     address: CONTRACT_ADDRESS,
-    abi: MiniChessEscrowPaymasterABI.abi,
+    abi: miniChessEscrowPaymasterAbi,
     functionName: 'getPlayerGameCount',
-    args: [address as `0x${string}`],
+    args: [address!],
     query: {
-      enabled: !!address
+      enabled: !!address && !!CONTRACT_ADDRESS
     }
   })
 
   // Get game history with pagination
   const { data: gameIds } = useReadContract({
     address: CONTRACT_ADDRESS,
-    abi: MiniChessEscrowPaymasterABI.abi,
+    abi: miniChessEscrowPaymasterAbi,
     functionName: 'getPlayerGameHistory',
-    args: [address as `0x${string}`, BigInt(GAMES_PER_PAGE), BigInt(page * GAMES_PER_PAGE)],
+    args: [address!, BigInt(GAMES_PER_PAGE), BigInt(page * GAMES_PER_PAGE)],
     query: {
-      enabled: !!address
+      enabled: !!address && !!CONTRACT_ADDRESS
     }
   })
 
   // Fetch game details for each game ID
   useEffect(() => {
     async function fetchGameDetails() {
-      if (!gameIds || Array.isArray(gameIds) && gameIds.length === 0) {
+      if (!gameIds || gameIds.length === 0) {
         setHistory([])
         setLoading(false)
         return
@@ -62,40 +72,22 @@ export function PlayerProfile() {
       setLoading(true)
       
       const games = await Promise.all(
-        (gameIds as bigint[]).map(async (gameId) => {
+        gameIds.map(async (gameId) => {
           try {
-            const gameData = await readContract(config, {
-              address: CONTRACT_ADDRESS,
-              abi: MiniChessEscrowPaymasterABI.abi,
-              functionName: 'getGame',
-              args: [gameId]
-            })
-
-            const gameDataResult = gameData as any[]
-            if (!Array.isArray(gameDataResult) || gameDataResult.length === 0) {
-              return null
-            }
-            
-            const [
-              player1,
-              player2,
-              player1Balance,
-              player2Balance,
-              status,
-              winner,
-              createdAt,
-              lastMoveAt
-            ] = gameDataResult
+            const { player1, player2, player1Balance, player2Balance, status, winner, createdAt } = await getGame(gameId, chainId)
 
             const isPlayer1 = player1.toLowerCase() === address?.toLowerCase()
             const opponent = isPlayer1 ? player2 : player1
             const won = winner.toLowerCase() === address?.toLowerCase()
+            // endGameDraw finishes a game without a winner
+            const drawn = status === 2 && BigInt(winner) === 0n
             const myPayout = isPlayer1 ? player1Balance : player2Balance
 
             return {
               gameId: gameId.toString(),
               opponent,
               won,
+              drawn,
               payout: formatEther(myPayout),
               profit: formatEther(myPayout - BigInt('2500000000000000000')), // Minus escrow
               date: new Date(Number(createdAt) * 1000),
@@ -113,7 +105,7 @@ export function PlayerProfile() {
     }
 
     fetchGameDetails()
-  }, [gameIds, address, config])
+  }, [gameIds, address, chainId])
 
   if (!address) {
     return (
@@ -127,8 +119,8 @@ export function PlayerProfile() {
     return <div className="profile-container">Loading...</div>
   }
 
-  const [gamesPlayed, gamesWon, gamesLost, totalEarned, totalLost, winRate] = statsData as any[]
-  const netProfit = formatEther((totalEarned as bigint) - (totalLost as bigint))
+  const [gamesPlayed, gamesWon, gamesLost, totalEarned, totalLost, winRate] = statsData
+  const netProfit = formatEther(totalEarned - totalLost)
 
   return (
     <div className="profile-container">
@@ -167,17 +159,22 @@ export function PlayerProfile() {
           icon="❌"
           negative
         />
+        <StatCard 
+          label="Games Drawn" 
+          value={(gamesDrawn ?? 0n).toString()}
+          icon="🤝"
+        />
       </div>
 
       {/* Financial Stats */}
       <div className="financial-stats">
         <div className="stat-row">
           <span className="label">Total Earned:</span>
-          <span className="value positive">+${formatEther(totalEarned as bigint)}</span>
+          <span className="value positive">+${formatEther(totalEarned)}</span>
         </div>
         <div className="stat-row">
           <span className="label">Total Lost:</span>
-          <span className="value negative">-${formatEther(totalLost as bigint)}</span>
+          <span className="value negative">-${formatEther(totalLost)}</span>
         </div>
         <div className="stat-row divider">
           <span className="label">Net Profit:</span>
@@ -242,11 +239,12 @@ function StatCard({ label, value, icon, positive, negative, highlight }: any) {
 
 function GameHistoryCard({ game }: any) {
   const profitNum = Number(game.profit)
+  const result = game.drawn ? 'drawn' : game.won ? 'won' : 'lost'
   
   return (
-    <div className={`game-card ${game.won ? 'won' : 'lost'}`}>
+    <div className={`game-card ${result}`}>
       <div className="result-badge">
-        {game.won ? '✓ Victory' : '✗ Defeat'}
+        {game.drawn ? '= Draw' : game.won ? '✓ Victory' : '✗ Defeat'}
       </div>
       
       <div className="game-info">
@@ -427,6 +425,10 @@ const styles = `
   border-left-color: #ef4444;
 }
 
+.game-card.drawn {
+  border-left-color: #eab308;
+}
+
 .result-badge {
   display: inline-block;
   padding: 0.5rem 1rem;
@@ -446,6 +448,11 @@ const styles = `
   color: #991b1b;
 }
 
+.game-card.drawn .result-badge {
+  background: #fef9c3;
+  color: #854d0e;
+}
+
 .game-info .row {
   display: flex;
   justify-content: space-between;
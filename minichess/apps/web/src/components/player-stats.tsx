@@ -3,20 +3,12 @@ import { useAccount } from 'wagmi';
 import { useGameContract } from '../hooks/useGameContract';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
-
-interface PlayerStats {
-  gamesPlayed: bigint;
-  gamesWon: bigint;
-  gamesLost: bigint;
-  totalEarned: bigint;
-  totalLost: bigint;
-  winRate: bigint;
-}
+import type { PlayerStats as ContractPlayerStats } from '../lib/minichess-client';
 
 export function PlayerStats() {
   const { address } = useAccount();
   const { getPlayerStats, getPlayerGameHistory, getPlayerGameCount } = useGameContract();
-  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [stats, setStats] = useState<ContractPlayerStats | null>(null);
   const [gameHistory, setGameHistory] = useState<bigint[]>([]);
   const [gameCount, setGameCount] = useState<bigint>(0n);
   const [loading, setLoading] = useState(false);
@@ -38,8 +30,8 @@ export function PlayerStats() {
         getPlayerGameCount(address)
       ]);
       
-      setStats(playerStats as PlayerStats);
-      setGameCount(count as bigint);
+      setStats(playerStats);
+      setGameCount(count);
     } catch (error) {
       console.error('Failed to load player stats:', error);
     } finally {
@@ -52,7 +44,7 @@ export function PlayerStats() {
     
     try {
       const history = await getPlayerGameHistory(address, 10, 0);
-      setGameHistory(history as bigint[]);
+      setGameHistory([...history]);
       setShowHistory(true);
     } catch (error) {
       console.error('Failed to load game history:', error);
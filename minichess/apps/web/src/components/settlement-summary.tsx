@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount, useChainId } from 'wagmi';
+import { formatEther } from 'viem';
+import { gameApiUrl } from '@/lib/game-api';
+import { DRAW_REASON_LABELS, DrawReason } from '@/lib/game-moves';
+import { getExplorerTxUrl } from '@/lib/networks';
+
+interface SettlementSummaryProps {
+  gameId: number;
+  player1: string;
+  player2: string;
+}
+
+interface Settlement {
+  winner: string | null;
+  reason: string | null;
+  txHash: string | null;
+  payout: {
+    winner: string;
+    player1Payout: string;
+    player2Payout: string;
+    isDraw: boolean;
+    blockNumber: string;
+  } | null;
+}
+
+export function SettlementSummary({ gameId, player1, player2 }: SettlementSummaryProps) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const [settlement, setSettlement] = useState<Settlement | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSettlement = async () => {
+      try {
+        const response = await fetch(gameApiUrl(gameId, chainId, 'settle'));
+        if (response.ok) {
+          setSettlement(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching settlement:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSettlement();
+  }, [gameId, chainId]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 mb-4">Loading settlement...</p>;
+  }
+
+  if (!settlement?.payout || !settlement.txHash) {
+    return <p className="text-sm text-gray-500 mb-4">Settlement details are not available for this game.</p>;
+  }
+
+  const { payout } = settlement;
+  const isMe = (player: string) => player.toLowerCase() === address?.toLowerCase();
+  const txUrl = settlement.txHash ? getExplorerTxUrl(settlement.txHash, chainId) : undefined;
+
+  return (
+    <div className="bg-white shadow-lg rounded-lg p-6 mb-6 text-left max-w-md w-full">
+      <h2 className="text-xl font-semibold mb-4 text-center">
+        {payout.isDraw ? '🤝 Draw' : isMe(payout.winner) ? '🏆 You won!' : 'Game settled'}
+      </h2>
+
+      <div className="space-y-2 text-sm">
+        {payout.isDraw ? (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Result:</span>
+            <span>
+              {DRAW_REASON_LABELS[settlement.reason as DrawReason] || 'Draw'}
+            </span>
+          </div>
+        ) : (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Winner:</span>
+            <span className="font-mono text-xs">
+              {payout.winner.slice(0, 6)}...{payout.winner.slice(-4)}
+              {settlement.reason && <span className="ml-2 text-gray-500">({settlement.reason})</span>}
+            </span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-gray-600">Player 1 payout {isMe(player1) && '(You)'}:</span>
+          <span className="font-semibold text-green-600">${formatEther(BigInt(payout.player1Payout))} cUSD</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Player 2 payout {isMe(player2) && '(You)'}:</span>
+          <span className="font-semibold text-green-600">${formatEther(BigInt(payout.player2Payout))} cUSD</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Payout tx:</span>
+          <a
+            href={txUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-xs text-blue-600 hover:text-blue-800 underline"
+          >
+            {settlement.txHash.slice(0, 10)}...{settlement.txHash.slice(-8)}
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
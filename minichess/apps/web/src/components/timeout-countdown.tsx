@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useGameContract } from '@/hooks/useGameContract';
+import { useNetwork } from '@/hooks/useNetwork';
+import { toastError } from '@/components/error-toast';
+import { GAME_TIMEOUT_SECONDS } from '@/lib/escrow-game';
+import { gameApiUrl } from '@/lib/game-api';
+
+interface TimeoutCountdownProps {
+  gameId: number;
+  lastMoveAt: bigint; // Reset by create, join and captures only
+  isToMove: boolean; // Connected address holds the seat to move
+  canClaim: boolean; // Connected address holds the waiting seat
+  onTimedOut: () => void;
+}
+
+const formatCountdown = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Time left before a timeout can be claimed, from the on-chain lastMoveAt
+ * The contract only resets lastMoveAt on a capture, so the deadline runs from
+ * the last capture (or the join), not the last move. Once it passes, the
+ * player waiting for the opponent to move is offered the claim
+ */
+export function TimeoutCountdown({ gameId, lastMoveAt, isToMove, canClaim, onTimedOut }: TimeoutCountdownProps) {
+  const { claimTimeout, loading } = useGameContract();
+  const { chainId } = useNetwork();
+  const [remaining, setRemaining] = useState(0);
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  useEffect(() => {
+    const deadline = Number(lastMoveAt) + GAME_TIMEOUT_SECONDS;
+
+    const updateRemaining = () => {
+      setRemaining(Math.max(0, deadline - Math.floor(Date.now() / 1000)));
+    };
+
+    updateRemaining();
+    const interval = setInterval(updateRemaining, 1000);
+
+    return () => clearInterval(interval);
+  }, [lastMoveAt]);
+
+  const handleClaimTimeout = async () => {
+    setIsClaiming(true);
+
+    try {
+      const txHash = await claimTimeout(gameId);
+
+      // Record the claim; the server waits for the receipt and checks for GameTimedOut
+      const response = await fetch(gameApiUrl(gameId, chainId, 'settle'), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash })
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.timedOut) {
+        throw new Error(result.error || 'Timeout claim did not end the game');
+      }
+
+      console.log(`[Timeout] Game ${gameId} won by timeout, tx ${txHash}`);
+      onTimedOut();
+    } catch (error) {
+      console.error('Failed to claim timeout:', error);
+      toastError(error, 'Failed to claim the win');
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const isExpired = remaining === 0;
+
+  if (!isExpired) {
+    return (
+      <div className="max-w-md mx-auto mb-4 bg-gray-50 border border-gray-200 rounded-lg p-3 text-center text-sm text-gray-600">
+        {canClaim && !isToMove ? 'Opponent can be timed out in ' : isToMove ? 'You can be timed out in ' : 'A timeout can be claimed in '}
+        <span className="font-mono font-semibold">{formatCountdown(remaining)}</span>
+        <p className="text-xs text-gray-500 mt-1">The clock restarts on captures only, not on every move</p>
+      </div>
+    );
+  }
+
+  if (!canClaim) {
+    return (
+      <div className="max-w-md mx-auto mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-center text-sm text-red-700">
+        {isToMove ? `No capture in ${GAME_TIMEOUT_SECONDS / 60} minutes - your opponent can now claim the win` : 'A timeout can now be claimed'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-center">
+      <p className="text-sm text-yellow-800 mb-3">
+        There has been no capture in {GAME_TIMEOUT_SECONDS / 60} minutes
+      </p>
+      <button
+        onClick={handleClaimTimeout}
+        disabled={isClaiming || loading}
+        className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50"
+      >
+        {isClaiming ? 'Claiming...' : 'Claim win by timeout'}
+      </button>
+    </div>
+  );
+}
@@ -2,10 +2,7 @@
 
 import { useAccount, useBalance } from "wagmi";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-
-const cUSD_ADDRESS = "0x765de816845861e75a25fca122bb6898b8b1282a";
-const USDC_ADDRESS = "0xcebA9300f2b948710d2653dD7B07f33A8B32118C";
-const USDT_ADDRESS = "0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e";
+import { useNetwork } from "@/hooks/useNetwork";
 
 function BalanceDisplay({ address, token, symbol }: { address: `0x${string}`, token?: `0x${string}`, symbol: string }) {
   const { data, isLoading } = useBalance({
@@ -25,6 +22,7 @@ function BalanceDisplay({ address, token, symbol }: { address: `0x${string}`, to
 
 export function UserBalance() {
   const { address, isConnected } = useAccount();
+  const { chain, stablecoins } = useNetwork();
 
   if (!isConnected || !address) {
     return null;
@@ -38,10 +36,10 @@ export function UserBalance() {
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="space-y-2 pt-2 border-t">
-          <BalanceDisplay address={address} symbol="CELO" token={undefined} />
-          <BalanceDisplay address={address} token={cUSD_ADDRESS} symbol="cUSD" />
-          <BalanceDisplay address={address} token={USDC_ADDRESS} symbol="USDC" />
-          <BalanceDisplay address={address} token={USDT_ADDRESS} symbol="USDT" />
+          <BalanceDisplay address={address} symbol={chain.nativeCurrency.symbol} token={undefined} />
+          {Object.entries(stablecoins).map(([symbol, token]) => token && (
+            <BalanceDisplay key={symbol} address={address} token={token} symbol={symbol} />
+          ))}
         </div>
       </CardContent>
     </Card>
@@ -5,9 +5,11 @@ import "@rainbow-me/rainbowkit/styles.css";
 import { injectedWallet } from "@rainbow-me/rainbowkit/wallets";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { useEffect, useState } from "react";
+import { Chain } from "viem";
 import { WagmiProvider, createConfig, http, useConnect } from "wagmi";
-import { celo, celoSepolia } from "wagmi/chains";
+import { SUPPORTED_NETWORKS } from "@/lib/networks";
 import { ConnectButton } from "./connect-button";
+import { GameSessionProvider } from "./game-session-provider";
 
 const connectors = connectorsForWallets(
   [
@@ -22,13 +24,13 @@ const connectors = connectorsForWallets(
   }
 );
 
+// Default network first, so wagmi starts on it before a wallet connects
+const chains = SUPPORTED_NETWORKS.map((network) => network.chain) as [Chain, ...Chain[]];
+
 const wagmiConfig = createConfig({
-  chains: [celo, celoSepolia],
+  chains,
   connectors,
-  transports: {
-    [celo.id]: http(),
-    [celoSepolia.id]: http(),
-  },
+  transports: Object.fromEntries(chains.map((chain) => [chain.id, http()])),
   ssr: true,
 });
 
@@ -48,7 +50,7 @@ function WalletProviderInner({ children }: { children: React.ReactNode }) {
     }
   }, [connect, connectors]);
 
-  return <>{children}</>;
+  return <GameSessionProvider>{children}</GameSessionProvider>;
 }
 
 export function WalletProvider({ children }: { children: React.ReactNode }) {
@@ -0,0 +1,41 @@
+// Read-only subset of MiniChessCustomPaymaster's ABI used by the app
+// Keep in sync with apps/contracts/src/MiniChessCustomPaymaster.sol
+export const miniChessCustomPaymasterAbi = [
+  {
+    type: 'function',
+    name: 'MAX_OPS_PER_WINDOW',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'getUserRateLimit',
+    inputs: [
+      {
+        name: 'user',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    outputs: [
+      {
+        name: 'remaining',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'resetTime',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  }
+] as const;
@@ -0,0 +1,1011 @@
+// ABI of MiniChessEscrowPaymaster as a const so viem can type reads, writes and events
+// Keep in sync with apps/contracts/src/MiniChessEscrowPaymaster.sol when the contract changes
+export const miniChessEscrowPaymasterAbi = [
+  {
+    type: 'constructor',
+    inputs: [
+      {
+        name: '_entryPoint',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: '_arbiter',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    stateMutability: 'nonpayable'
+  },
+  {
+    type: 'function',
+    name: 'BISHOP_VALUE',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'CUSD_TOKEN',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'ESCROW_AMOUNT',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'GAME_TIMEOUT',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'KNIGHT_VALUE',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'PAWN_VALUE',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'QUEEN_VALUE',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'ROOK_VALUE',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'arbiter',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'authorized',
+    inputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'bool',
+        internalType: 'bool'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'cUSD',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'contract IERC20'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'cancelGame',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable'
+  },
+  {
+    type: 'function',
+    name: 'capturePiecePaymaster',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'moveNumber',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'captor',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'pieceType',
+        type: 'uint8',
+        internalType: 'enum MiniChessEscrowPaymaster.PieceType'
+      },
+      {
+        name: 'arbiterSignature',
+        type: 'bytes',
+        internalType: 'bytes'
+      }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable'
+  },
+  {
+    type: 'function',
+    name: 'claimTimeout',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable'
+  },
+  {
+    type: 'function',
+    name: 'createGameWithSession',
+    inputs: [
+      {
+        name: 'sessionKey',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'validUntil',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'sessionSignature',
+        type: 'bytes',
+        internalType: 'bytes'
+      },
+      {
+        name: 'actualSigner',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'nonpayable'
+  },
+  {
+    type: 'function',
+    name: 'endGame',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'winner',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'arbiterSignature',
+        type: 'bytes',
+        internalType: 'bytes'
+      }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable'
+  },
+  {
+    type: 'function',
+    name: 'endGameDraw',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'arbiterSignature',
+        type: 'bytes',
+        internalType: 'bytes'
+      }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable'
+  },
+  {
+    type: 'function',
+    name: 'entryPoint',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'contract IEntryPoint'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'gameCounter',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'games',
+    inputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    outputs: [
+      {
+        name: 'player1',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'player2',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'player1Escrow',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'player2Escrow',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'player1Balance',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'player2Balance',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'status',
+        type: 'uint8',
+        internalType: 'enum MiniChessEscrowPaymaster.GameStatus'
+      },
+      {
+        name: 'winner',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'createdAt',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'lastMoveAt',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'creatorSigner',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'getGame',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    outputs: [
+      {
+        name: 'player1',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'player2',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'player1Balance',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'player2Balance',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'status',
+        type: 'uint8',
+        internalType: 'enum MiniChessEscrowPaymaster.GameStatus'
+      },
+      {
+        name: 'winner',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'createdAt',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'lastMoveAt',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'getPieceValue',
+    inputs: [
+      {
+        name: 'pieceType',
+        type: 'uint8',
+        internalType: 'enum MiniChessEscrowPaymaster.PieceType'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'pure'
+  },
+  {
+    type: 'function',
+    name: 'getPlayerDraws',
+    inputs: [
+      {
+        name: 'player',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'getPlayerGameCount',
+    inputs: [
+      {
+        name: 'player',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'getPlayerGameHistory',
+    inputs: [
+      {
+        name: 'player',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'limit',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'offset',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256[]',
+        internalType: 'uint256[]'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'getPlayerStats',
+    inputs: [
+      {
+        name: 'player',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    outputs: [
+      {
+        name: 'gamesPlayed',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'gamesWon',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'gamesLost',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'totalEarned',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'totalLost',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'winRate',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'isAuthorized',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'player',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'bool',
+        internalType: 'bool'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'isCaptureProcessed',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'captureId',
+        type: 'bytes32',
+        internalType: 'bytes32'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'bool',
+        internalType: 'bool'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'joinGameWithSession',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'sessionKey',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: 'validUntil',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'sessionSignature',
+        type: 'bytes',
+        internalType: 'bytes'
+      },
+      {
+        name: 'actualSigner',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable'
+  },
+  {
+    type: 'function',
+    name: 'playerGameHistory',
+    inputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address'
+      },
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'playerStats',
+    inputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'address'
+      }
+    ],
+    outputs: [
+      {
+        name: 'gamesPlayed',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'gamesWon',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'gamesLost',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'totalEarned',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'totalLost',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: 'gamesDrawn',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'function',
+    name: 'processedCaptures',
+    inputs: [
+      {
+        name: '',
+        type: 'uint256',
+        internalType: 'uint256'
+      },
+      {
+        name: '',
+        type: 'bytes32',
+        internalType: 'bytes32'
+      }
+    ],
+    outputs: [
+      {
+        name: '',
+        type: 'bool',
+        internalType: 'bool'
+      }
+    ],
+    stateMutability: 'view'
+  },
+  {
+    type: 'event',
+    name: 'GameCancelled',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256'
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: 'event',
+    name: 'GameCreated',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256'
+      },
+      {
+        name: 'player1',
+        type: 'address',
+        indexed: true,
+        internalType: 'address'
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: 'event',
+    name: 'GameDrawn',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256'
+      },
+      {
+        name: 'player1Payout',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      },
+      {
+        name: 'player2Payout',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: 'event',
+    name: 'GameEnded',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256'
+      },
+      {
+        name: 'winner',
+        type: 'address',
+        indexed: true,
+        internalType: 'address'
+      },
+      {
+        name: 'player1Payout',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      },
+      {
+        name: 'player2Payout',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: 'event',
+    name: 'GameTimedOut',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256'
+      },
+      {
+        name: 'claimer',
+        type: 'address',
+        indexed: true,
+        internalType: 'address'
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: 'event',
+    name: 'PieceCaptured',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256'
+      },
+      {
+        name: 'captor',
+        type: 'address',
+        indexed: true,
+        internalType: 'address'
+      },
+      {
+        name: 'pieceType',
+        type: 'uint8',
+        indexed: false,
+        internalType: 'enum MiniChessEscrowPaymaster.PieceType'
+      },
+      {
+        name: 'amount',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: 'event',
+    name: 'PlayerJoined',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256'
+      },
+      {
+        name: 'player2',
+        type: 'address',
+        indexed: true,
+        internalType: 'address'
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: 'event',
+    name: 'SessionAuthorized',
+    inputs: [
+      {
+        name: 'gameId',
+        type: 'uint256',
+        indexed: true,
+        internalType: 'uint256'
+      },
+      {
+        name: 'player',
+        type: 'address',
+        indexed: true,
+        internalType: 'address'
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: 'event',
+    name: 'StatsUpdated',
+    inputs: [
+      {
+        name: 'player',
+        type: 'address',
+        indexed: true,
+        internalType: 'address'
+      },
+      {
+        name: 'gamesPlayed',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      },
+      {
+        name: 'gamesWon',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      },
+      {
+        name: 'gamesLost',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      },
+      {
+        name: 'totalEarned',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      },
+      {
+        name: 'totalLost',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256'
+      }
+    ],
+    anonymous: false
+  },
+  {
+    type: 'error',
+    name: 'ECDSAInvalidSignature',
+    inputs: []
+  },
+  {
+    type: 'error',
+    name: 'ECDSAInvalidSignatureLength',
+    inputs: [
+      {
+        name: 'length',
+        type: 'uint256',
+        internalType: 'uint256'
+      }
+    ]
+  },
+  {
+    type: 'error',
+    name: 'ECDSAInvalidSignatureS',
+    inputs: [
+      {
+        name: 's',
+        type: 'bytes32',
+        internalType: 'bytes32'
+      }
+    ]
+  },
+  {
+    type: 'error',
+    name: 'ReentrancyGuardReentrantCall',
+    inputs: []
+  }
+] as const;
@@ -1,25 +1,18 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useAccount } from 'wagmi';
+import { useAccount, useChainId } from 'wagmi';
 import { useRouter } from 'next/navigation';
-import { createPublicClient, http } from 'viem';
-import { celoSepolia } from 'viem/chains';
-import MiniChessEscrowPaymasterABI from '@/contracts/MiniChessEscrowPaymaster.json';
+import { getGame } from '@/lib/minichess-client';
 
-const CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`;
 const ACTIVE_GAME_KEY = 'minichess_active_game';
 
 export function useActiveGame() {
   const { address } = useAccount();
+  const chainId = useChainId();
   const router = useRouter();
   const [isChecking, setIsChecking] = useState(true);
 
-  const publicClient = createPublicClient({
-    chain: celoSepolia,
-    transport: http()
-  });
-
   // Save active game ID to localStorage
   const setActiveGame = (gameId: number) => {
     if (typeof window !== 'undefined' && address) {
@@ -49,14 +42,7 @@ export function useActiveGame() {
   // Check if a game is still active on the blockchain
   const checkGameStatus = async (gameId: number): Promise<boolean> => {
     try {
-      const result = await publicClient.readContract({
-        address: CONTRACT_ADDRESS,
-        abi: MiniChessEscrowPaymasterABI.abi,
-        functionName: 'getGame',
-        args: [BigInt(gameId)]
-      }) as [string, string, bigint, bigint, number, string, bigint, bigint];
-
-      const [player1, player2, , , status] = result;
+      const { player1, player2, status } = await getGame(gameId, chainId);
 
       // Check if game is active or waiting AND the current user is a player
       const isPlayer =
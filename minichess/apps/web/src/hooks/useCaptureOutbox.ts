@@ -0,0 +1,174 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNetwork } from '@/hooks/useNetwork';
+import { readBlockNumber, readPieceCapturedEvents } from '@/lib/escrow-game';
+import {
+  CaptureOutboxEntry,
+  CaptureStatus,
+  MAX_CAPTURE_ATTEMPTS,
+  SUBMISSION_GRACE_PERIOD,
+  getRetryDelay,
+  loadCaptureOutbox,
+  reconcileCaptureEvents,
+  saveCaptureOutbox
+} from '@/lib/capture-outbox';
+import { gameApiUrl } from '@/lib/game-api';
+
+const PROCESS_INTERVAL = 1000; // ms between outbox checks
+
+interface CaptureOutboxOptions {
+  onConfirmed?: (entry: CaptureOutboxEntry) => void;
+}
+
+/**
+ * Ask the server to pay out a capture
+ * The server works out captor and piece from the move log itself; the
+ * request only tells it there is something to relay
+ */
+async function requestCaptureRelay(gameId: number, chainId: number, moveNumber: number): Promise<string> {
+  const response = await fetch(gameApiUrl(gameId, chainId, 'captures'), { method: 'POST' });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Capture relay failed');
+  }
+
+  const capture = result.captures.find((c: { moveNumber: number }) => c.moveNumber === moveNumber);
+  if (!capture) {
+    throw new Error(`Move ${moveNumber} is not a capture`);
+  }
+  if (!capture.txHash) {
+    throw new Error('Capture not paid out yet');
+  }
+  return capture.txHash;
+}
+
+/**
+ * Captures waiting to be paid out on-chain, persisted in localStorage
+ * Entries are keyed by game and move number and retried against the server
+ * capture relay with backoff. PieceCaptured events are checked before every
+ * request, so a capture that already landed is confirmed, not requested again
+ */
+export function useCaptureOutbox(gameId: number, options: CaptureOutboxOptions) {
+  const { chainId } = useNetwork();
+  const [entries, setEntries] = useState<CaptureOutboxEntry[]>([]);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const processingRef = useRef(false);
+
+  useEffect(() => {
+    setEntries(loadCaptureOutbox(gameId).entries);
+  }, [gameId]);
+
+  const updateEntries = useCallback((update: (entries: CaptureOutboxEntry[]) => CaptureOutboxEntry[]) => {
+    const outbox = loadCaptureOutbox(gameId);
+    outbox.entries = update(outbox.entries);
+    saveCaptureOutbox(outbox);
+    setEntries(outbox.entries);
+    return outbox.entries;
+  }, [gameId]);
+
+  const enqueue = useCallback((capture: Pick<CaptureOutboxEntry, 'moveNumber' | 'captor' | 'pieceType' | 'piece'>) => {
+    const outbox = loadCaptureOutbox(gameId);
+    if (outbox.entries.some(entry => entry.moveNumber === capture.moveNumber)) return;
+
+    outbox.entries.push({
+      ...capture,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now()
+    });
+    saveCaptureOutbox(outbox);
+    setEntries(outbox.entries);
+  }, [gameId]);
+
+  const retry = useCallback((moveNumber: number) => {
+    updateEntries(current => current.map(entry =>
+      entry.moveNumber === moveNumber
+        ? { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined }
+        : entry
+    ));
+  }, [updateEntries]);
+
+  const processOutbox = useCallback(async () => {
+    const now = Date.now();
+    const outbox = loadCaptureOutbox(gameId);
+    const due = outbox.entries.filter(entry => entry.status === 'pending' && entry.nextAttemptAt <= now);
+    if (due.length === 0) return;
+
+    // Record the block before the first request we send; nothing of ours can be
+    // on-chain before it. If it cannot be read, nothing is sent until the next tick
+    if (!outbox.fromBlock) {
+      outbox.fromBlock = (await readBlockNumber(chainId)).toString();
+      saveCaptureOutbox(outbox);
+    }
+
+    // Anything that already landed on-chain is confirmed instead of resent
+    // Read from the wallet's network, which is where the server relays this game's captures
+    const wasPending = new Set(due.map(entry => entry.moveNumber));
+    const events = await readPieceCapturedEvents(gameId, BigInt(outbox.fromBlock), chainId);
+    const reconciled = updateEntries(current => reconcileCaptureEvents(current, events));
+
+    for (const entry of reconciled) {
+      if (entry.status === 'confirmed' && wasPending.has(entry.moveNumber)) {
+        console.log(`[Capture Outbox] Move ${entry.moveNumber} capture found on-chain:`, entry.txHash);
+        optionsRef.current.onConfirmed?.(entry);
+      }
+    }
+
+    for (const entry of reconciled.filter(entry => entry.status === 'pending' && entry.nextAttemptAt <= now)) {
+      const attempts = entry.attempts + 1;
+
+      // Hold the entry for the grace period in case we are interrupted mid-send
+      updateEntries(current => current.map(e =>
+        e.moveNumber === entry.moveNumber ? { ...e, attempts, nextAttemptAt: Date.now() + SUBMISSION_GRACE_PERIOD } : e
+      ));
+
+      try {
+        const txHash = await requestCaptureRelay(gameId, chainId, entry.moveNumber);
+        const confirmed = { ...entry, attempts, status: 'confirmed' as const, txHash, lastError: undefined };
+        updateEntries(current => current.map(e => e.moveNumber === entry.moveNumber ? confirmed : e));
+
+        console.log(`[Capture Outbox] Move ${entry.moveNumber} capture confirmed:`, txHash);
+        optionsRef.current.onConfirmed?.(confirmed);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const status: CaptureStatus = attempts >= MAX_CAPTURE_ATTEMPTS ? 'failed' : 'pending';
+        console.error(`[Capture Outbox] Move ${entry.moveNumber} capture attempt ${attempts} failed:`, message);
+
+        updateEntries(current => current.map(e =>
+          e.moveNumber === entry.moveNumber
+            ? { ...e, attempts, status, lastError: message, nextAttemptAt: Date.now() + getRetryDelay(attempts) }
+            : e
+        ));
+      }
+    }
+  }, [gameId, chainId, updateEntries]);
+
+  useEffect(() => {
+    if (!gameId || isNaN(gameId)) return;
+
+    const interval = setInterval(async () => {
+      if (processingRef.current) return;
+      processingRef.current = true;
+      try {
+        await processOutbox();
+      } catch (error) {
+        console.error('[Capture Outbox] Processing failed:', error);
+      } finally {
+        processingRef.current = false;
+      }
+    }, PROCESS_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [gameId, processOutbox]);
+
+  const statusByMove: Record<number, CaptureStatus> = {};
+  for (const entry of entries) {
+    statusByMove[entry.moveNumber] = entry.status;
+  }
+
+  return { entries, statusByMove, enqueue, retry };
+}
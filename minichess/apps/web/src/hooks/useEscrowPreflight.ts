@@ -0,0 +1,60 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { EscrowPreflight, getFundingHint, getPreflightBlocker, readEscrowPreflight } from '@/lib/escrow-preflight';
+import { useNetwork } from '@/hooks/useNetwork';
+
+const PREFLIGHT_REFRESH = 15000; // ms, picks up top-ups without a reload
+
+/**
+ * cUSD balance, allowance and sponsorship for the connected wallet, checked
+ * against the escrow deposit so Create and Join can be disabled with a reason
+ */
+export function useEscrowPreflight() {
+  const { address } = useAccount();
+  const { chainId } = useNetwork();
+  const [preflight, setPreflight] = useState<EscrowPreflight | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!address) {
+      setPreflight(null);
+      return null;
+    }
+
+    try {
+      const result = await readEscrowPreflight(address, chainId);
+      setPreflight(result);
+      setError(null);
+      return result;
+    } catch (err) {
+      console.error('[Preflight] Failed to check escrow requirements:', err);
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  }, [address, chainId]);
+
+  useEffect(() => {
+    setPreflight(null);
+    refresh();
+
+    const interval = setInterval(refresh, PREFLIGHT_REFRESH);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  let reason: string | null = null;
+  if (!address) reason = 'Connect your wallet to play';
+  else if (error) reason = 'Could not check your cUSD balance';
+  else if (!preflight) reason = 'Checking your cUSD balance...';
+  else reason = getPreflightBlocker(preflight);
+
+  return {
+    preflight,
+    error,
+    canPlay: reason === null,
+    reason,
+    fundingHint: preflight && preflight.shortfall > 0n ? getFundingHint(chainId) : null,
+    refresh
+  };
+}
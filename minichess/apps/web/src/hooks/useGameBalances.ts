@@ -0,0 +1,53 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useChainId } from 'wagmi';
+import { readEscrowGame } from '@/lib/escrow-game';
+import { getPublicClient, miniChessEscrowPaymasterAbi } from '@/lib/minichess-client';
+import { getContractAddress } from '@/lib/networks';
+
+interface GameBalances {
+  player1Balance: bigint | null;
+  player2Balance: bigint | null;
+}
+
+/**
+ * Player balances for a game as recorded by the escrow contract
+ * Read from getGame and re-read whenever a PieceCaptured event for the game
+ * arrives, so both players see every capture once it is on-chain
+ */
+export function useGameBalances(gameId: number) {
+  const chainId = useChainId();
+  const [balances, setBalances] = useState<GameBalances>({ player1Balance: null, player2Balance: null });
+
+  const refresh = useCallback(async () => {
+    try {
+      const { player1Balance, player2Balance } = await readEscrowGame(gameId, chainId);
+      setBalances({ player1Balance, player2Balance });
+    } catch (error) {
+      console.error('[Balances] Failed to read game balances:', error);
+    }
+  }, [gameId, chainId]);
+
+  useEffect(() => {
+    if (!gameId || isNaN(gameId)) return;
+
+    refresh();
+
+    const unwatch = getPublicClient(chainId).watchContractEvent({
+      address: getContractAddress(chainId),
+      abi: miniChessEscrowPaymasterAbi,
+      eventName: 'PieceCaptured',
+      args: { gameId: BigInt(gameId) },
+      onLogs: logs => {
+        console.log(`[Balances] ${logs.length} capture(s) confirmed on-chain for game ${gameId}`);
+        refresh();
+      },
+      onError: error => console.error('[Balances] PieceCaptured watch failed:', error)
+    });
+
+    return () => unwatch();
+  }, [gameId, chainId, refresh]);
+
+  return { ...balances, refresh };
+}
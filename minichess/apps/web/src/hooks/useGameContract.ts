@@ -1,15 +1,75 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useAccount } from 'wagmi';
-import { parseEther, createPublicClient, http, erc20Abi, encodeFunctionData } from 'viem';
-import { celoSepolia } from 'viem/chains';
-import MiniChessEscrowPaymasterABI from '../contracts/MiniChessEscrowPaymaster.json';
-
-const CUSD_ADDRESS = '0xdE9e4C3ce781b4bA68120d6261cbad65ce0aB00b'; // Celo Sepolia cUSD
+import { Address, erc20Abi, encodeFunctionData, createWalletClient, custom } from 'viem';
+import { NO_SESSION_KEY, buildGameActionMessageHash, buildMoveMessageHash } from '../lib/move-signature';
+import {
+  ContractCall,
+  getGameCounter,
+  getMinichessCalls,
+  getPlayerGameCount as readPlayerGameCount,
+  getPlayerGameHistory as readPlayerGameHistory,
+  getPlayerStats as readPlayerStats
+} from '../lib/minichess-client';
+import { Operation, getBundlerClient } from '../lib/bundler-client';
+import { gameApiUrl } from '../lib/game-api';
+import { getContractAddress } from '../lib/networks';
+import { MiniChessError, decodeMiniChessError, isMiniChessErrorCode } from '../lib/minichess-errors';
+import { EscrowPreflight, getPreflightBlocker, readEscrowPreflight } from '../lib/escrow-preflight';
+import { useGameSession } from '../components/game-session-provider';
+import { useNetwork } from './useNetwork';
 
 export function useGameContract() {
   const { address } = useAccount();
+  const { chain, chainId, stablecoins } = useNetwork();
+  const { authorize, getSessionSigner } = useGameSession();
   const [loading, setLoading] = useState(false);
-  const [sessionActive, setSessionActive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Send game operations through the bundler and wait for the receipt
+   * Every game action goes through here so failures surface the same way
+   */
+  async function sendToBundler(sender: string, operations: Operation[]) {
+    setError(null);
+    try {
+      return await getBundlerClient(chainId).execute(sender as Address, operations);
+    } catch (err) {
+      const decoded = decodeMiniChessError(err);
+      setError(decoded.message);
+      throw decoded;
+    }
+  }
+
+  /**
+   * Check the player can cover the escrow before they sign anything
+   * Throws when the cUSD balance is short
+   */
+  async function runEscrowPreflight(owner: string) {
+    const preflight = await readEscrowPreflight(owner as Address, chainId);
+    const blocker = getPreflightBlocker(preflight);
+    if (blocker) {
+      throw new MiniChessError('INSUFFICIENT_FUNDS', blocker);
+    }
+    return preflight;
+  }
+
+  /**
+   * cUSD approval for the escrow, if the current allowance does not cover it
+   */
+  function prepareEscrowApproval({ needsApproval, escrowAmount }: EscrowPreflight): ContractCall[] {
+    if (!needsApproval || !stablecoins.cUSD) return [];
+
+    console.log('[Game Contract] Adding cUSD approval transaction');
+    return [{
+      target: stablecoins.cUSD,
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [getContractAddress(chainId), escrowAmount]
+      }),
+      value: BigInt(0)
+    }];
+  }
 
   // Note: The following functions have been disabled because Alchemy SDK was removed
   // They need to be refactored to work with the custom bundler implementation
@@ -31,117 +91,30 @@ export function useGameContract() {
     
     setLoading(true);
     try {
-      // Initialize session
-      await initializeGameSession(userAddress);
-      
+      const preflight = await runEscrowPreflight(userAddress);
+
       // Get current game counter from contract
-      const publicClient = createPublicClient({
-        chain: celoSepolia,
-        transport: http()
-      });
-      
-      const gameCounter = await publicClient.readContract({
-        address: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
-        abi: MiniChessEscrowPaymasterABI.abi,
-        functionName: 'gameCounter'
-      });
+      const gameCounter = await getGameCounter(chainId);
       
       const nextGameId = Number(gameCounter) + 1;
-      const chainId = celoSepolia.id;
-      
-      console.log('[Game Contract] Next game ID:', nextGameId, 'Chain ID:', chainId);
-      
-      // Create session message matching contract format
-      const { encodePacked, keccak256, createWalletClient, custom } = require('viem');
-      const packedMessage = encodePacked(
-        ['string', 'uint256', 'uint256'],
-        ['AUTHORIZE_SESSION', BigInt(nextGameId), BigInt(chainId)]
-      );
-      
-      const messageHash = keccak256(packedMessage);
-      console.log('[Game Contract] Message hash:', messageHash);
-      
-      // Sign the hash
-      const walletClient = createWalletClient({
-        account: userAddress,
-        chain: celoSepolia,
-        transport: custom(window.ethereum)
-      });
-      
-      const sessionSignature = await walletClient.signMessage({
-        account: userAddress,
-        message: { raw: messageHash }
-      });
+      console.log('[Game Contract] Next game ID:', nextGameId);
       
+      // Start a session for the new game; one signature authorizes the creator
+      // on-chain and the session key with the server
+      const session = await authorize(nextGameId);
       console.log('[Game Contract] Session signature created');
       
-      // Check cUSD allowance
-      const allowance = await publicClient.readContract({
-        address: CUSD_ADDRESS,
-        abi: erc20Abi,
-        functionName: 'allowance',
-        args: [userAddress, process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`]
-      });
-
-      const escrowAmount = parseEther('2.5');
-      const userOps: any[] = [];
-
-      // Add approval if needed
-      if (allowance < escrowAmount) {
-        console.log('[Game Contract] Adding cUSD approval transaction');
-        userOps.push({
-          target: CUSD_ADDRESS as `0x${string}`,
-          data: encodeFunctionData({
-            abi: erc20Abi,
-            functionName: 'approve',
-            args: [process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`, escrowAmount]
-          }),
-          value: BigInt(0)
-        });
-      }
+      const userOps = prepareEscrowApproval(preflight);
 
       // Add create game call
-      userOps.push({
-        target: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
-        data: encodeFunctionData({
-          abi: MiniChessEscrowPaymasterABI.abi,
-          functionName: 'createGameWithSession',
-          args: [sessionSignature, userAddress]
-        }),
-        value: BigInt(0)
-      });
+      userOps.push(getMinichessCalls(chainId).createGameWithSession(session.sessionKey ?? NO_SESSION_KEY, session.signature, userAddress));
 
       console.log('[Game Contract] Sending', userOps.length, 'user operations to bundler');
       
-      // Convert BigInt values to strings for JSON serialization
-      const serializableOps = userOps.map(op => ({
-        target: op.target,
-        data: op.data,
-        value: op.value.toString()
-      }));
-      
-      // Send to custom bundler
-      const bundlerUrl = process.env.NEXT_PUBLIC_BUNDLER_URL || 'http://localhost:3001';
-      const response = await fetch(`${bundlerUrl}/sendUserOperation`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userOperation: {
-            sender: userAddress,
-            operations: serializableOps
-          }
-        })
-      });
-      
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Bundler error: ${error}`);
-      }
-      
-      const data = await response.json();
-      console.log('[Game Contract] Transaction hash:', data.transactionHash);
+      const { transactionHash } = await sendToBundler(userAddress, userOps);
+      console.log('[Game Contract] Transaction hash:', transactionHash);
 
-      return data.transactionHash;
+      return transactionHash;
       
     } catch (error) {
       console.error('[Game Contract] Failed to create game:', error);
@@ -168,108 +141,24 @@ export function useGameContract() {
     
     setLoading(true);
     try {
-      // Initialize session
-      await initializeGameSession(userAddress);
-      
-      const chainId = celoSepolia.id;
-      console.log('[Game Contract] Game ID:', gameId, 'Chain ID:', chainId);
-      
-      // Create session message matching contract format
-      const { encodePacked, keccak256, createWalletClient, custom } = require('viem');
-      const packedMessage = encodePacked(
-        ['string', 'uint256', 'uint256'],
-        ['AUTHORIZE_SESSION', BigInt(gameId), BigInt(chainId)]
-      );
-      
-      const messageHash = keccak256(packedMessage);
-      console.log('[Game Contract] Message hash:', messageHash);
-      
-      // Sign the hash
-      const walletClient = createWalletClient({
-        account: userAddress,
-        chain: celoSepolia,
-        transport: custom(window.ethereum)
-      });
-      
-      const sessionSignature = await walletClient.signMessage({
-        account: userAddress,
-        message: { raw: messageHash }
-      });
-      
+      const preflight = await runEscrowPreflight(userAddress);
+
+      // Start a session for the game; one signature authorizes the joiner
+      // on-chain and the session key with the server
+      const session = await authorize(gameId);
       console.log('[Game Contract] Session signature created');
       
-      // Check cUSD allowance
-      const publicClient = createPublicClient({
-        chain: celoSepolia,
-        transport: http()
-      });
-
-      const allowance = await publicClient.readContract({
-        address: CUSD_ADDRESS,
-        abi: erc20Abi,
-        functionName: 'allowance',
-        args: [userAddress, process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`]
-      });
-
-      const escrowAmount = parseEther('2.5');
-      const userOps: any[] = [];
-
-      // Add approval if needed
-      if (allowance < escrowAmount) {
-        console.log('[Game Contract] Adding cUSD approval transaction');
-        userOps.push({
-          target: CUSD_ADDRESS as `0x${string}`,
-          data: encodeFunctionData({
-            abi: erc20Abi,
-            functionName: 'approve',
-            args: [process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`, escrowAmount]
-          }),
-          value: BigInt(0)
-        });
-      }
+      const userOps = prepareEscrowApproval(preflight);
 
       // Add join game call
-      userOps.push({
-        target: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
-        data: encodeFunctionData({
-          abi: MiniChessEscrowPaymasterABI.abi,
-          functionName: 'joinGameWithSession',
-          args: [BigInt(gameId), sessionSignature, userAddress]
-        }),
-        value: BigInt(0)
-      });
+      userOps.push(getMinichessCalls(chainId).joinGameWithSession(gameId, session.sessionKey ?? NO_SESSION_KEY, session.signature, userAddress));
 
       console.log('[Game Contract] Sending', userOps.length, 'user operations to bundler');
 
-      // Convert BigInt values to strings for JSON serialization
-      const serializableOps = userOps.map(op => ({
-        target: op.target,
-        data: op.data,
-        value: op.value.toString()
-      }));
-
-      // Send to custom bundler
-      const bundlerUrl = process.env.NEXT_PUBLIC_BUNDLER_URL || 'http://localhost:3001';
-      const response = await fetch(`${bundlerUrl}/sendUserOperation`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userOperation: {
-            sender: userAddress,
-            operations: serializableOps
-          }
-        })
-      });
-      
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Bundler error: ${error}`);
-      }
-      
-      const data = await response.json();
-      console.log('[Game Contract] Transaction hash:', data.transactionHash);
+      const { transactionHash } = await sendToBundler(userAddress, userOps);
+      console.log('[Game Contract] Transaction hash:', transactionHash);
 
-      return data.transactionHash;
+      return transactionHash;
       
     } catch (error) {
       console.error('[Game Contract] Failed to join game:', error);
@@ -280,148 +169,74 @@ export function useGameContract() {
   }
 
   /**
-   * Initialize game session
-   * TODO: Refactor to use custom bundler instead of Alchemy SDK
+   * Sign a move for submission to the moves API
+   * Signed silently by the game's session key while the session is active,
+   * otherwise by the wallet. Returns the player address, the SUBMIT_MOVE
+   * signature and the session key authorization when one was used
    */
-  async function initializeGameSession(walletAddressOrWallet: any) {
-    console.log('🔍 DEBUG: initializeGameSession called with:', walletAddressOrWallet);
-    
-    const userAddress = typeof walletAddressOrWallet === 'string'
-      ? walletAddressOrWallet
-      : walletAddressOrWallet?.address;
-      
-    console.log('🔍 DEBUG: Extracted address:', userAddress);
-    console.log('🔍 DEBUG: Contract address from env:', process.env.NEXT_PUBLIC_CONTRACT_ADDRESS);
-    console.log('[Game Contract] Initializing game session for address:', userAddress);
-    
-    if (!userAddress) {
-      console.error('[Game Contract] No valid address provided');
-      return;
-    }
-    
-    setLoading(true);
-    try {
-      // Store session info
-      localStorage.setItem('gameSession', JSON.stringify({
-        validUntil: Date.now() + 7200000, // 2 hours
-        targets: [process.env.NEXT_PUBLIC_CONTRACT_ADDRESS],
-        selectors: ['0xf7683440'], // capturePiecePaymaster selector
-        valueLimit: '2.5',
-        address: userAddress
-      }));
-      
-      setSessionActive(true);
-      console.log('[Game Contract] Session initialized successfully');
-      
-    } catch (error) {
-      console.error('[Game Contract] Failed to initialize session:', error);
-      console.log('🔍 DEBUG: Error message:', error instanceof Error ? error.message : String(error));
-      console.log('🔍 DEBUG: Error stack:', error instanceof Error ? error.stack : 'No stack trace available');
-    } finally {
-      setLoading(false);
+  async function signMove(gameId: number, moveNumber: number, from: string, to: string, promotion?: string) {
+    console.log('[Game Contract] Signing move', moveNumber, 'for game:', gameId);
+
+    if (!address) {
+      throw new Error('No wallet connected');
     }
-  }
 
-  // Fallback function for backward compatibility
-  async function createGameSessionSimple(walletAddressOrWallet: any) {
-    console.log('🔍 DEBUG: createGameSessionSimple called - redirecting to initializeGameSession');
-    return initializeGameSession(walletAddressOrWallet);
+    const messageHash = buildMoveMessageHash({
+      gameId,
+      moveNumber,
+      from,
+      to,
+      promotion,
+      chainId
+    });
+
+    return signForPlayer(gameId, messageHash);
   }
 
   /**
-   * Gasless capture transaction using custom bundler
+   * Sign a resignation or draw action for submission to the actions API
+   * Signed like moves, by the session key when there is one
    */
-  async function capturePiecePaymaster(gameId: number, captor: string, pieceType: number) {
-    console.log('[Game Contract] Capturing piece - Game:', gameId, 'Captor:', captor, 'Type:', pieceType);
-    
-    if (!sessionActive) {
-      console.error('[Game Contract] Session not active');
-      throw new Error('Session not active');
-    }
+  async function signGameAction(gameId: number, actionNumber: number, action: string) {
+    console.log('[Game Contract] Signing', action, 'for game:', gameId);
 
-    try {
-      // Create signature for capture matching contract format
-      const { encodePacked, keccak256, createWalletClient, custom } = require('viem');
-      const chainId = celoSepolia.id;
-      
-      const packedMessage = encodePacked(
-        ['string', 'uint256', 'address', 'uint256', 'uint256'],
-        ['CAPTURE_PIECE', BigInt(gameId), captor as `0x${string}`, BigInt(pieceType), BigInt(chainId)]
-      );
-      
-      const messageHash = keccak256(packedMessage);
-      console.log('[Game Contract] Capture message hash:', messageHash);
-      
-      const sessionData = JSON.parse(localStorage.getItem('gameSession') || '{}');
-      const signerAddress = sessionData.address || captor;
-      
-      // Sign the hash
-      const walletClient = createWalletClient({
-        account: signerAddress,
-        chain: celoSepolia,
-        transport: custom(window.ethereum)
-      });
-      
-      const sessionSignature = await walletClient.signMessage({
-        account: signerAddress,
-        message: { raw: messageHash }
-      });
-
-      console.log('[Game Contract] Capture signature created');
-
-      // Prepare user operation
-      const userOp = {
-        target: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
-        data: encodeFunctionData({
-          abi: MiniChessEscrowPaymasterABI.abi,
-          functionName: 'capturePiecePaymaster',
-          args: [
-            BigInt(gameId),
-            captor as `0x${string}`,
-            pieceType,
-            sessionSignature,
-            signerAddress
-          ]
-        }),
-        value: BigInt(0)
-      };
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
 
-      console.log('[Game Contract] Sending capture operation to bundler');
+    const messageHash = buildGameActionMessageHash({
+      gameId,
+      action,
+      actionNumber,
+      chainId
+    });
 
-      // Convert BigInt values to strings for JSON serialization
-      const serializableOp = {
-        target: userOp.target,
-        data: userOp.data,
-        value: userOp.value.toString()
-      };
+    return signForPlayer(gameId, messageHash);
+  }
 
-      // Send to custom bundler
-      const bundlerUrl = process.env.NEXT_PUBLIC_BUNDLER_URL || 'http://localhost:3001';
-      const response = await fetch(`${bundlerUrl}/sendUserOperation`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userOperation: {
-            sender: signerAddress,
-            operations: [serializableOp]
-          }
-        })
-      });
-      
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Bundler error: ${error}`);
-      }
-      
-      const data = await response.json();
-      console.log('[Game Contract] Capture transaction hash:', data.transactionHash);
+  async function signForPlayer(gameId: number, messageHash: `0x${string}`) {
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
 
-      return data.transactionHash;
-      
-    } catch (error) {
-      console.error('[Game Contract] Failed to capture piece:', error);
-      throw error;
+    const sessionSigner = await getSessionSigner(gameId);
+    if (sessionSigner) {
+      const signature = await sessionSigner.account.signMessage({ message: { raw: messageHash } });
+      return { signer: address as string, signature, sessionKey: sessionSigner.authorization };
     }
+
+    const walletClient = createWalletClient({
+      account: address,
+      chain,
+      transport: custom(window.ethereum)
+    });
+
+    const signature = await walletClient.signMessage({
+      account: address,
+      message: { raw: messageHash }
+    });
+
+    return { signer: address as string, signature, sessionKey: undefined };
   }
 
   /**
@@ -431,17 +246,7 @@ export function useGameContract() {
     console.log('[Game Contract] Fetching stats for player:', playerAddress);
     
     try {
-      const publicClient = createPublicClient({
-        chain: celoSepolia,
-        transport: http()
-      });
-
-      const stats = await publicClient.readContract({
-        address: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
-        abi: MiniChessEscrowPaymasterABI.abi,
-        functionName: 'getPlayerStats',
-        args: [playerAddress as `0x${string}`]
-      });
+      const stats = await readPlayerStats(playerAddress as Address, chainId);
 
       console.log('[Game Contract] Player stats retrieved:', stats);
       return stats;
@@ -458,17 +263,7 @@ export function useGameContract() {
     console.log('[Game Contract] Fetching game history for player:', playerAddress, 'Limit:', limit, 'Offset:', offset);
     
     try {
-      const publicClient = createPublicClient({
-        chain: celoSepolia,
-        transport: http()
-      });
-
-      const gameHistory = await publicClient.readContract({
-        address: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
-        abi: MiniChessEscrowPaymasterABI.abi,
-        functionName: 'getPlayerGameHistory',
-        args: [playerAddress as `0x${string}`, BigInt(limit), BigInt(offset)]
-      });
+      const gameHistory = await readPlayerGameHistory(playerAddress as Address, limit, offset, chainId);
 
       console.log('[Game Contract] Game history retrieved:', gameHistory);
       return gameHistory;
@@ -485,17 +280,7 @@ export function useGameContract() {
     console.log('[Game Contract] Fetching game count for player:', playerAddress);
     
     try {
-      const publicClient = createPublicClient({
-        chain: celoSepolia,
-        transport: http()
-      });
-
-      const count = await publicClient.readContract({
-        address: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
-        abi: MiniChessEscrowPaymasterABI.abi,
-        functionName: 'getPlayerGameCount',
-        args: [playerAddress as `0x${string}`]
-      });
+      const count = await readPlayerGameCount(playerAddress as Address, chainId);
 
       console.log('[Game Contract] Game count retrieved:', count);
       return count;
@@ -505,22 +290,6 @@ export function useGameContract() {
     }
   }
 
-  /**
-   * Check if session is still valid
-   */
-  function isSessionValid(): boolean {
-    const sessionData = localStorage.getItem('gameSession');
-    if (!sessionData) {
-      console.log('[Game Contract] No session data found');
-      return false;
-    }
-    
-    const session = JSON.parse(sessionData);
-    const isValid = Date.now() < session.validUntil;
-    console.log('[Game Contract] Session validity check:', isValid);
-    return isValid;
-  }
-
   /**
    * Cancel a waiting game and get refund
    */
@@ -533,50 +302,15 @@ export function useGameContract() {
 
     setLoading(true);
     try {
-      const { encodeFunctionData, createWalletClient, custom } = require('viem');
-
       // Prepare cancel game transaction
-      const userOp = {
-        target: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
-        data: encodeFunctionData({
-          abi: MiniChessEscrowPaymasterABI.abi,
-          functionName: 'cancelGame',
-          args: [BigInt(gameId)]
-        }),
-        value: BigInt(0)
-      };
+      const userOp = getMinichessCalls(chainId).cancelGame(gameId);
 
       console.log('[Game Contract] Sending cancel operation to bundler');
 
-      // Convert BigInt values to strings for JSON serialization
-      const serializableOp = {
-        target: userOp.target,
-        data: userOp.data,
-        value: userOp.value.toString()
-      };
-
-      // Send to custom bundler
-      const bundlerUrl = process.env.NEXT_PUBLIC_BUNDLER_URL || 'http://localhost:3001';
-      const response = await fetch(`${bundlerUrl}/sendUserOperation`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userOperation: {
-            sender: address,
-            operations: [serializableOp]
-          }
-        })
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Bundler error: ${error}`);
-      }
+      const { transactionHash } = await sendToBundler(address, [userOp]);
+      console.log('[Game Contract] Cancel transaction hash:', transactionHash);
 
-      const data = await response.json();
-      console.log('[Game Contract] Cancel transaction hash:', data.transactionHash);
-
-      return data.transactionHash;
+      return transactionHash;
 
     } catch (error) {
       console.error('[Game Contract] Failed to cancel game:', error);
@@ -598,87 +332,122 @@ export function useGameContract() {
 
     setLoading(true);
     try {
-      const { encodeFunctionData } = require('viem');
-
       // Prepare claim timeout transaction
-      const userOp = {
-        target: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
-        data: encodeFunctionData({
-          abi: MiniChessEscrowPaymasterABI.abi,
-          functionName: 'claimTimeout',
-          args: [BigInt(gameId)]
-        }),
-        value: BigInt(0)
-      };
+      const userOp = getMinichessCalls(chainId).claimTimeout(gameId);
 
       console.log('[Game Contract] Sending timeout claim operation to bundler');
 
-      // Convert BigInt values to strings for JSON serialization
-      const serializableOp = {
-        target: userOp.target,
-        data: userOp.data,
-        value: userOp.value.toString()
-      };
+      const { transactionHash } = await sendToBundler(address, [userOp]);
+      console.log('[Game Contract] Timeout claim transaction hash:', transactionHash);
 
-      // Send to custom bundler
-      const bundlerUrl = process.env.NEXT_PUBLIC_BUNDLER_URL || 'http://localhost:3001';
-      const response = await fetch(`${bundlerUrl}/sendUserOperation`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userOperation: {
-            sender: address,
-            operations: [serializableOp]
-          }
-        })
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Bundler error: ${error}`);
-      }
+      return transactionHash;
+
+    } catch (error) {
+      console.error('[Game Contract] Failed to claim timeout:', error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Ask the server arbiter to settle a finished game
+   * The server confirms the result from the move and action logs and submits
+   * endGame or endGameDraw itself, so the client never chooses the winner
+   */
+  async function requestSettlement(gameId: number) {
+    setError(null);
+    const response = await fetch(gameApiUrl(gameId, chainId, 'settle'), { method: 'POST' });
+    const settlement = await response.json();
+
+    if (!response.ok) {
+      const decoded = isMiniChessErrorCode(settlement.code)
+        ? new MiniChessError(settlement.code, settlement.error)
+        : decodeMiniChessError(new Error(`Arbiter rejected settlement: ${settlement.error}`));
+      setError(decoded.message);
+      throw decoded;
+    }
+
+    return settlement as {
+      winner: string | null;
+      draw: boolean;
+      reason: string;
+      txHash: string;
+      player1Payout: string;
+      player2Payout: string;
+    };
+  }
+
+  /**
+   * End a won game and pay out the escrow
+   */
+  async function endGame(gameId: number) {
+    console.log('[Game Contract] Ending game:', gameId);
+
+    setLoading(true);
+    try {
+      const settlement = await requestSettlement(gameId);
 
-      const data = await response.json();
-      console.log('[Game Contract] Timeout claim transaction hash:', data.transactionHash);
+      if (settlement.draw) {
+        throw new Error(`Game ended in a draw (${settlement.reason}), use settleDraw`);
+      }
 
-      return data.transactionHash;
+      console.log('[Game Contract] Game settled, winner:', settlement.winner, 'tx:', settlement.txHash);
+      return { txHash: settlement.txHash, winner: settlement.winner as string };
 
     } catch (error) {
-      console.error('[Game Contract] Failed to claim timeout:', error);
+      console.error('[Game Contract] Failed to end game:', error);
       throw error;
     } finally {
       setLoading(false);
     }
   }
 
-  // Auto-initialize when wallet connects
-  useEffect(() => {
-    console.log('[Game Contract] Wallet connection detected:', address);
-    
-    if (address && typeof window !== 'undefined' && window.ethereum) {
-      if (isSessionValid()) {
-        console.log('[Game Contract] Reusing existing valid session');
-        setSessionActive(true);
-      } else {
-        console.log('[Game Contract] Creating new session');
-        initializeGameSession(address);
+  /**
+   * Settle a drawn game
+   * Each player is paid their current balance, so captures made during the game stand
+   */
+  async function settleDraw(gameId: number) {
+    console.log('[Game Contract] Settling draw:', gameId);
+
+    setLoading(true);
+    try {
+      const settlement = await requestSettlement(gameId);
+
+      if (!settlement.draw) {
+        throw new Error('Game did not end in a draw, use endGame');
       }
+
+      console.log('[Game Contract] Draw settled:', settlement.reason, 'tx:', settlement.txHash);
+      return {
+        txHash: settlement.txHash,
+        reason: settlement.reason,
+        player1Balance: BigInt(settlement.player1Payout),
+        player2Balance: BigInt(settlement.player2Payout)
+      };
+
+    } catch (error) {
+      console.error('[Game Contract] Failed to settle draw:', error);
+      throw error;
+    } finally {
+      setLoading(false);
     }
-  }, [address]);
+  }
 
   return {
     createGameWithSession,
     joinGameWithSession,
-    initializeGameSession,
-    createGameSessionSimple, // Add fallback for backward compatibility
-    capturePiecePaymaster,
+    signMove,
+    signGameAction,
     cancelGame,
     claimTimeout,
+    endGame,
+    settleDraw,
     getPlayerStats,
     getPlayerGameHistory,
     getPlayerGameCount,
     loading,
-    isReady: sessionActive,
-    isSessionValid
+    error,
+    isReady: !!address
   };
 }
@@ -0,0 +1,203 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Chess } from 'chess.js';
+import { useNetwork } from '@/hooks/useNetwork';
+import { gameApiUrl } from '@/lib/game-api';
+import type { GameMove } from '@/lib/game-moves';
+import type { GameAction } from '@/lib/game-actions';
+import type { SerializedEscrowGame } from '@/lib/escrow-game';
+import type { CaptureEvent } from '@/lib/game-stream';
+
+const MAX_RECONNECT_DELAY = 30000;
+
+type Listener = () => void;
+type CaptureListener = (capture: CaptureEvent) => void;
+
+/**
+ * Shared EventSource for one game on one network
+ * Every component using the same game id and chain reads from one connection
+ */
+class GameStreamConnection {
+  game = new Chess();
+  moves: GameMove[] = [];
+  actions: GameAction[] = [];
+  status: SerializedEscrowGame | null = null;
+  isConnected = false;
+
+  private source: EventSource | null = null;
+  private listeners = new Set<Listener>();
+  private captureListeners = new Set<CaptureListener>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private gameId: number, private chainId: number) {}
+
+  subscribe(listener: Listener, onCapture?: CaptureListener): () => void {
+    this.listeners.add(listener);
+    if (onCapture) this.captureListeners.add(onCapture);
+    if (!this.source && !this.reconnectTimer) this.open();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (onCapture) this.captureListeners.delete(onCapture);
+      if (this.listeners.size === 0) this.close();
+    };
+  }
+
+  // Drop local state and rebuild from the first move
+  resync() {
+    this.game = new Chess();
+    this.moves = [];
+    this.actions = [];
+    this.notify();
+    this.close();
+    this.open();
+  }
+
+  private open() {
+    // Resume from the last move and action we applied
+    const source = new EventSource(
+      gameApiUrl(this.gameId, this.chainId, 'stream', { since: this.moves.length, actionsSince: this.actions.length })
+    );
+    this.source = source;
+
+    source.onopen = () => {
+      this.isConnected = true;
+      this.reconnectAttempts = 0;
+      this.notify();
+    };
+
+    source.addEventListener('move', (event) => {
+      this.applyMove(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('capture', (event) => {
+      const capture: CaptureEvent = JSON.parse((event as MessageEvent).data);
+      this.captureListeners.forEach(listener => listener(capture));
+    });
+
+    source.addEventListener('action', (event) => {
+      this.applyAction(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('status', (event) => {
+      this.status = JSON.parse((event as MessageEvent).data);
+      this.notify();
+    });
+
+    source.addEventListener('reset', () => {
+      console.log('[Game Stream] Server reset the move history, resyncing');
+      this.resync();
+    });
+
+    source.onerror = () => {
+      // Reconnect ourselves with backoff so the resume cursor is always current
+      source.close();
+      this.source = null;
+      this.isConnected = false;
+      this.notify();
+
+      const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+      this.reconnectAttempts++;
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (this.listeners.size > 0) this.open();
+      }, delay);
+    };
+  }
+
+  private close() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.source?.close();
+    this.source = null;
+    this.isConnected = false;
+  }
+
+  private applyMove(move: GameMove) {
+    // Already applied, e.g. replayed after a reconnect
+    if (move.moveNumber <= this.moves.length) return;
+
+    if (move.moveNumber !== this.moves.length + 1) {
+      console.warn('[Game Stream] Gap in move numbers, resyncing', move.moveNumber, this.moves.length);
+      this.resync();
+      return;
+    }
+
+    try {
+      this.game.move({ from: move.from, to: move.to, promotion: move.promotion });
+    } catch {
+      console.error('[Game Stream] Failed to apply move', move);
+      this.resync();
+      return;
+    }
+
+    this.moves.push(move);
+    this.notify();
+  }
+
+  private applyAction(action: GameAction) {
+    // Already applied, e.g. replayed after a reconnect
+    if (action.actionNumber <= this.actions.length) return;
+
+    if (action.actionNumber !== this.actions.length + 1) {
+      console.warn('[Game Stream] Gap in action numbers, resyncing', action.actionNumber, this.actions.length);
+      this.resync();
+      return;
+    }
+
+    this.actions.push(action);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const connections = new Map<string, GameStreamConnection>();
+
+function getConnection(gameId: number, chainId: number): GameStreamConnection {
+  const key = `${chainId}:${gameId}`;
+  let connection = connections.get(key);
+  if (!connection) {
+    connection = new GameStreamConnection(gameId, chainId);
+    connections.set(key, connection);
+  }
+  return connection;
+}
+
+/**
+ * Live view of a game's moves, actions and on-chain status over Server-Sent Events
+ * Moves are applied incrementally to a single chess.js instance
+ */
+export function useGameStream(gameId: number, options: { onCapture?: CaptureListener } = {}) {
+  const [, setVersion] = useState(0);
+  const onCaptureRef = useRef(options.onCapture);
+  onCaptureRef.current = options.onCapture;
+
+  const { chainId } = useNetwork();
+  const connection = getConnection(gameId, chainId);
+
+  useEffect(() => {
+    if (!gameId || isNaN(gameId)) return;
+
+    return connection.subscribe(
+      () => setVersion(v => v + 1),
+      (capture) => onCaptureRef.current?.(capture)
+    );
+  }, [connection, gameId]);
+
+  return {
+    game: connection.game,
+    moves: connection.moves,
+    lastMoveNumber: connection.moves.length,
+    actions: connection.actions,
+    status: connection.status,
+    isConnected: connection.isConnected,
+    resync: () => connection.resync()
+  };
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { useChainId } from 'wagmi';
+import { NetworkConfig, getNetwork } from '@/lib/networks';
+
+/**
+ * Network config for the connected chain
+ * useChainId only reports configured chains, so this is always a supported network
+ */
+export function useNetwork(): NetworkConfig & { chainId: number } {
+  const chainId = useChainId();
+  const network = getNetwork(chainId);
+  return { ...network, chainId: network.chain.id };
+}
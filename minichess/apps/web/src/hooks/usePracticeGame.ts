@@ -1,8 +1,15 @@
 import { useState, useCallback, useEffect } from 'react';
-import { Chess } from 'chess.js';
+import { Chess, Move } from 'chess.js';
 import { ChessAI } from '@/lib/chess-ai';
 import { PracticeStatsManager } from '@/lib/practice-stats';
 
+// Copy a game with its move history, which new Chess(fen) would drop
+function cloneGame(game: Chess): Chess {
+  const copy = new Chess();
+  copy.loadPgn(game.pgn());
+  return copy;
+}
+
 export function usePracticeGame() {
   const [game, setGame] = useState(new Chess());
   const [ai] = useState(() => new ChessAI());
@@ -44,13 +51,16 @@ export function usePracticeGame() {
     });
   }, []);
 
-  const makePlayerMove = useCallback((from: string, to: string) => {
+  const makePlayerMove = useCallback((from: string, to: string, promotion?: string) => {
     if (isThinking) return false;
 
-    const gameCopy = new Chess(game.fen());
-    const move = gameCopy.move({ from, to, promotion: 'q' });
-    
-    if (!move) return false;
+    const gameCopy = cloneGame(game);
+    let move: Move;
+    try {
+      move = gameCopy.move({ from, to, promotion });
+    } catch {
+      return false;
+    }
 
     setGame(gameCopy);
     
@@ -73,7 +83,7 @@ export function usePracticeGame() {
     setTimeout(() => {
       const aiMove = ai.getBestMove(gameCopy);
       if (aiMove) {
-        const gameAfterAi = new Chess(gameCopy.fen());
+        const gameAfterAi = cloneGame(gameCopy);
         gameAfterAi.move(aiMove);
         setGame(gameAfterAi);
       }
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BundlerClient, BundlerError } from '@/lib/bundler-client';
+
+const SENDER = '0x1111111111111111111111111111111111111111';
+const OPERATION = { target: '0x2222222222222222222222222222222222222222', data: '0x1234' } as const;
+const TX_HASH = `0x${'ab'.repeat(32)}` as const;
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+function mockFetch(...responses: (Response | Error)[]) {
+  const fetchMock = vi.fn();
+  for (const response of responses) {
+    if (response instanceof Error) fetchMock.mockRejectedValueOnce(response);
+    else fetchMock.mockResolvedValueOnce(response);
+  }
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const client = () => new BundlerClient({ url: 'http://bundler.test', retries: 2, retryDelayMs: 0, timeoutMs: 1000 });
+
+const sentPaths = (fetchMock: ReturnType<typeof vi.fn>) =>
+  fetchMock.mock.calls.map(([url, init]) => `${init.method} ${String(url).replace('http://bundler.test', '')}`);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('BundlerClient.sendOperations', () => {
+  it('sends the batch under the idempotency key and returns its transactions', async () => {
+    const fetchMock = mockFetch(jsonResponse(200, { transactionHash: TX_HASH, allTransactions: [{ transactionHash: TX_HASH }] }));
+
+    const result = await client().sendOperations(SENDER, [OPERATION], { idempotencyKey: 'move-1' });
+
+    expect(result).toEqual({ userOpHash: 'move-1', transactionHash: TX_HASH, transactionHashes: [TX_HASH] });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers['Idempotency-Key']).toBe('move-1');
+    expect(JSON.parse(init.body).userOperation.operations).toEqual([{ target: OPERATION.target, data: OPERATION.data, value: '0' }]);
+  });
+
+  it('resends with the same key when the bundler has no record of a failed attempt', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = mockFetch(
+      jsonResponse(502, { error: 'Bad gateway' }),
+      jsonResponse(404, { status: 'not_found' }),
+      jsonResponse(200, { transactionHash: TX_HASH })
+    );
+
+    const result = await client().sendOperations(SENDER, [OPERATION], { idempotencyKey: 'retry-me' });
+
+    expect(result.transactionHash).toBe(TX_HASH);
+    expect(sentPaths(fetchMock)).toEqual([
+      'POST /sendUserOperation',
+      'GET /getUserOperationStatus/retry-me',
+      'POST /sendUserOperation'
+    ]);
+    expect(fetchMock.mock.calls[2][1].headers['Idempotency-Key']).toBe('retry-me');
+  });
+
+  it('resumes a batch that went through although the response was lost', async () => {
+    const fetchMock = mockFetch(
+      new TypeError('fetch failed'),
+      jsonResponse(200, { status: 'success', transactionHash: TX_HASH, allTransactions: [{ transactionHash: TX_HASH }] }),
+      jsonResponse(200, { status: 'success', transactionHash: TX_HASH, allTransactions: [{ transactionHash: TX_HASH }] })
+    );
+
+    const result = await client().sendOperations(SENDER, [OPERATION], { idempotencyKey: 'lost-response' });
+
+    expect(result).toEqual({ userOpHash: 'lost-response', transactionHash: TX_HASH, transactionHashes: [TX_HASH] });
+    expect(sentPaths(fetchMock).filter(path => path.startsWith('POST'))).toHaveLength(1);
+  });
+
+  it('does not resend a batch the bundler reports as failed', async () => {
+    const fetchMock = mockFetch(
+      jsonResponse(500, { error: 'Operation 0 reverted: Game not active' }),
+      jsonResponse(200, { status: 'failed', error: 'Operation 0 reverted: Game not active' })
+    );
+
+    await expect(client().sendOperations(SENDER, [OPERATION], { idempotencyKey: 'failed' })).rejects.toThrow('Game not active');
+    expect(sentPaths(fetchMock).filter(path => path.startsWith('POST'))).toHaveLength(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const fetchMock = mockFetch(jsonResponse(409, { error: 'Idempotency-Key was used for different operations' }));
+
+    const error = await client().sendOperations(SENDER, [OPERATION]).catch(e => e);
+
+    expect(error).toBeInstanceOf(BundlerError);
+    expect(error.status).toBe(409);
+    expect(error.retryable).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the configured retries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = mockFetch(
+      jsonResponse(503, { error: 'Unavailable' }),
+      jsonResponse(404, {}),
+      jsonResponse(503, { error: 'Unavailable' }),
+      jsonResponse(404, {}),
+      jsonResponse(503, { error: 'Unavailable' })
+    );
+
+    const error = await client().sendOperations(SENDER, [OPERATION]).catch(e => e);
+
+    expect(error).toBeInstanceOf(BundlerError);
+    expect(error.retryable).toBe(true);
+    expect(sentPaths(fetchMock).filter(path => path.startsWith('POST'))).toHaveLength(3);
+  });
+
+  it('rejects an empty batch without calling the bundler', async () => {
+    const fetchMock = mockFetch();
+
+    await expect(client().sendOperations(SENDER, [])).rejects.toThrow('No operations to send');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('BundlerClient.getUserOperationStatus', () => {
+  it('maps the bundler status and transactions', async () => {
+    mockFetch(jsonResponse(200, { status: 'pending', allTransactions: [{ transactionHash: TX_HASH, status: 'sent' }] }));
+
+    await expect(client().getUserOperationStatus('key')).resolves.toEqual({
+      status: 'pending',
+      transactionHash: undefined,
+      transactionHashes: [TX_HASH],
+      error: undefined
+    });
+  });
+
+  it('treats 404 as not_found', async () => {
+    mockFetch(jsonResponse(404, { status: 'not_found' }));
+
+    await expect(client().getUserOperationStatus('missing')).resolves.toEqual({ status: 'not_found', transactionHashes: [] });
+  });
+
+  it('throws other errors as retryable when they are 5xx', async () => {
+    mockFetch(jsonResponse(500, { error: 'boom' }));
+
+    const error = await client().getUserOperationStatus('key').catch(e => e);
+    expect(error).toBeInstanceOf(BundlerError);
+    expect(error.retryable).toBe(true);
+  });
+});
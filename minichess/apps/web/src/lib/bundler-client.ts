@@ -0,0 +1,287 @@
+import { Address, BaseError, Hex, TransactionReceipt } from 'viem';
+import { getPublicClient } from '@/lib/minichess-client';
+import { getNetwork } from '@/lib/networks';
+
+/**
+ * One contract call in a bundler batch
+ * ContractCall from lib/minichess-client is an Operation
+ */
+export interface Operation {
+  target: Address;
+  data: Hex;
+  value?: bigint;
+  gasLimit?: bigint; // Bundler default (3,000,000) when omitted
+}
+
+export type UserOperationStatus = 'pending' | 'success' | 'failed' | 'not_found';
+
+export interface UserOperationResult {
+  userOpHash: string; // Idempotency key the batch was sent under
+  transactionHash: Hex; // Last transaction in the batch
+  transactionHashes: Hex[];
+}
+
+export interface BundlerClientOptions {
+  chainId?: number; // Network whose bundler and RPC to use, see lib/networks
+  url?: string; // Overrides the network's bundler URL
+  timeoutMs?: number; // Per request; the bundler answers once the batch is mined
+  retries?: number;
+  retryDelayMs?: number; // Doubled after every retry
+}
+
+/**
+ * Error from the bundler or the request to it
+ * Retryable errors (timeouts, network failures, 5xx) are retried automatically
+ */
+export class BundlerError extends Error {
+  constructor(message: string, readonly status?: number, readonly retryable = false) {
+    super(message);
+    this.name = 'BundlerError';
+  }
+}
+
+const DEFAULT_OPTIONS = {
+  timeoutMs: 90000,
+  retries: 2,
+  retryDelayMs: 2000
+};
+
+const STATUS_POLL_INTERVAL = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const newIdempotencyKey = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Client for the MiniChess bundler's sendUserOperation API
+ * Every batch carries an Idempotency-Key, so a retry after a timeout or a
+ * dropped connection resumes the original batch instead of repeating it
+ */
+export class BundlerClient {
+  private chainId?: number;
+  private url: string;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
+
+  constructor(options: BundlerClientOptions = {}) {
+    this.chainId = options.chainId;
+    this.url = options.url || getNetwork(options.chainId).bundlerUrl;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_OPTIONS.timeoutMs;
+    this.retries = options.retries ?? DEFAULT_OPTIONS.retries;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_OPTIONS.retryDelayMs;
+  }
+
+  /**
+   * Send a batch of operations, executed in order by the bundler
+   * Resolves once the bundler reports the batch mined
+   */
+  async sendOperations(
+    sender: Address,
+    operations: Operation[],
+    { idempotencyKey = newIdempotencyKey() }: { idempotencyKey?: string } = {}
+  ): Promise<UserOperationResult> {
+    if (operations.length === 0) {
+      throw new BundlerError('No operations to send');
+    }
+
+    const body = JSON.stringify({
+      userOperation: {
+        sender,
+        operations: operations.map(op => ({
+          target: op.target,
+          data: op.data,
+          value: (op.value ?? 0n).toString(),
+          ...(op.gasLimit !== undefined && { gasLimit: op.gasLimit.toString() })
+        }))
+      }
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await this.request('/sendUserOperation', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+          body
+        });
+        return toResult(idempotencyKey, data);
+      } catch (error) {
+        if (!(error instanceof BundlerError) || !error.retryable || attempt >= this.retries) {
+          throw error;
+        }
+
+        // The batch may have gone through, or still be running, even though the response was lost
+        const { status } = await this.getUserOperationStatus(idempotencyKey).catch(() => ({ status: 'not_found' as const }));
+        if (status === 'failed') throw error; // Resuming would repeat the failing operation
+        if (status !== 'not_found') {
+          const settled = await this.waitForUserOperation(idempotencyKey);
+          if (settled) return settled;
+        }
+
+        console.warn(`[Bundler] Attempt ${attempt + 1} for ${idempotencyKey} failed, retrying:`, error.message);
+        await sleep(this.retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  async sendOperation(sender: Address, operation: Operation, options?: { idempotencyKey?: string }) {
+    return this.sendOperations(sender, [operation], options);
+  }
+
+  /**
+   * Where a batch sent with the given idempotency key stands
+   */
+  async getUserOperationStatus(userOpHash: string): Promise<{
+    status: UserOperationStatus;
+    transactionHash?: Hex;
+    transactionHashes: Hex[];
+    error?: string;
+  }> {
+    try {
+      const data = await this.request(`/getUserOperationStatus/${encodeURIComponent(userOpHash)}`, { method: 'GET' });
+      return {
+        status: data.status,
+        transactionHash: data.transactionHash,
+        transactionHashes: (data.allTransactions || []).map((tx: { transactionHash: Hex }) => tx.transactionHash),
+        error: data.error
+      };
+    } catch (error) {
+      if (error instanceof BundlerError && error.status === 404) {
+        return { status: 'not_found', transactionHashes: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Poll a batch until it succeeds or fails
+   * Returns null if the bundler has no record of it
+   */
+  async waitForUserOperation(userOpHash: string): Promise<UserOperationResult | null> {
+    const deadline = Date.now() + this.timeoutMs;
+
+    while (Date.now() < deadline) {
+      const { status, transactionHash, transactionHashes, error } = await this.getUserOperationStatus(userOpHash);
+
+      if (status === 'not_found') return null;
+      if (status === 'success' && transactionHash) {
+        return { userOpHash, transactionHash, transactionHashes };
+      }
+      if (status === 'failed') {
+        throw new BundlerError(error || 'User operation failed');
+      }
+
+      await sleep(STATUS_POLL_INTERVAL);
+    }
+
+    throw new BundlerError(`Timed out waiting for user operation ${userOpHash}`, undefined, true);
+  }
+
+  /**
+   * Wait for a transaction to be mined and throw if it reverted
+   */
+  async waitForReceipt(transactionHash: Hex): Promise<TransactionReceipt> {
+    const receipt = await getPublicClient(this.chainId).waitForTransactionReceipt({ hash: transactionHash });
+    if (receipt.status !== 'success') {
+      const reason = await this.getRevertReason(receipt);
+      throw new BundlerError(`Transaction ${transactionHash} reverted${reason ? `: ${reason}` : ''}`);
+    }
+    return receipt;
+  }
+
+  /**
+   * Replay a reverted transaction against the state before its block to recover the reason
+   * Best effort: returns null if the replay does not revert or cannot be run
+   */
+  private async getRevertReason(receipt: TransactionReceipt): Promise<string | null> {
+    const client = getPublicClient(this.chainId);
+    try {
+      const tx = await client.getTransaction({ hash: receipt.transactionHash });
+      await client.call({
+        account: tx.from,
+        to: tx.to,
+        data: tx.input,
+        value: tx.value,
+        blockNumber: receipt.blockNumber - 1n
+      });
+      return null;
+    } catch (error) {
+      // Ignore failures of the replay itself, e.g. an RPC error
+      return error instanceof BaseError && /revert/i.test(error.shortMessage) ? error.shortMessage : null;
+    }
+  }
+
+  /**
+   * Send a batch and wait for its last transaction's receipt
+   */
+  async execute(sender: Address, operations: Operation[], options?: { idempotencyKey?: string }) {
+    const result = await this.sendOperations(sender, operations, options);
+    const receipt = await this.waitForReceipt(result.transactionHash);
+    return { ...result, receipt };
+  }
+
+  private async request(path: string, init: RequestInit) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}${path}`, { ...init, signal: controller.signal });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      throw new BundlerError(
+        timedOut ? `Bundler request timed out after ${this.timeoutMs}ms` : `Bundler unreachable: ${error instanceof Error ? error.message : error}`,
+        undefined,
+        true
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const text = await response.text();
+    let data;
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch {
+      data = { error: text };
+    }
+
+    if (!response.ok) {
+      throw new BundlerError(`Bundler error: ${data.error || response.statusText}`, response.status, response.status >= 500);
+    }
+    return data;
+  }
+}
+
+function toResult(userOpHash: string, data: { transactionHash?: Hex; allTransactions?: { transactionHash: Hex }[] }): UserOperationResult {
+  if (!data.transactionHash) {
+    throw new BundlerError('Bundler response has no transaction hash');
+  }
+
+  return {
+    userOpHash,
+    transactionHash: data.transactionHash,
+    transactionHashes: (data.allTransactions || []).map(tx => tx.transactionHash)
+  };
+}
+
+export const bundlerClient = new BundlerClient();
+
+const networkClients = new Map<number, BundlerClient>();
+
+/**
+ * Shared client for a network's bundler
+ */
+export function getBundlerClient(chainId: number): BundlerClient {
+  const id = getNetwork(chainId).chain.id;
+
+  let client = networkClients.get(id);
+  if (!client) {
+    client = new BundlerClient({ chainId: id });
+    networkClients.set(id, client);
+  }
+  return client;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { matchCaptureEvents } from '@/lib/capture-outbox';
+
+const PLAYERS = {
+  player1: '0x1111111111111111111111111111111111111111',
+  player2: '0x2222222222222222222222222222222222222222'
+};
+
+describe('matchCaptureEvents', () => {
+  const event = (captor: string, pieceType: number, transactionHash: string) => ({ captor, pieceType, transactionHash });
+
+  it('pairs the n-th event with the n-th capture of the same captor and piece', () => {
+    const captures = [
+      { moveNumber: 7, captor: PLAYERS.player1, pieceType: 0 },
+      { moveNumber: 3, captor: PLAYERS.player1, pieceType: 0 },
+      { moveNumber: 4, captor: PLAYERS.player2, pieceType: 0 }
+    ];
+    const events = [
+      event(PLAYERS.player1, 0, '0xfirst'),
+      event(PLAYERS.player2, 0, '0xblack'),
+      event(PLAYERS.player1, 0, '0xsecond')
+    ];
+
+    const matched = matchCaptureEvents(captures, events);
+
+    expect(matched.get(3)?.transactionHash).toBe('0xfirst');
+    expect(matched.get(7)?.transactionHash).toBe('0xsecond');
+    expect(matched.get(4)?.transactionHash).toBe('0xblack');
+  });
+
+  it('leaves captures without an event unmatched', () => {
+    const captures = [
+      { moveNumber: 3, captor: PLAYERS.player1, pieceType: 0 },
+      { moveNumber: 5, captor: PLAYERS.player1, pieceType: 1 }
+    ];
+
+    const matched = matchCaptureEvents(captures, [event(PLAYERS.player1, 0, '0xpawn')]);
+
+    expect([...matched.keys()]).toEqual([3]);
+  });
+
+  it('compares captor addresses case-insensitively', () => {
+    const captures = [{ moveNumber: 2, captor: '0xABCDEF0000000000000000000000000000000000', pieceType: 3 }];
+
+    const matched = matchCaptureEvents(captures, [event('0xabcdef0000000000000000000000000000000000', 3, '0xrook')]);
+
+    expect(matched.get(2)?.transactionHash).toBe('0xrook');
+  });
+
+  it('does not pair an event with a different piece type', () => {
+    const captures = [{ moveNumber: 2, captor: PLAYERS.player1, pieceType: 4 }];
+
+    expect(matchCaptureEvents(captures, [event(PLAYERS.player1, 0, '0xpawn')]).size).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+export type CaptureStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface CaptureOutboxEntry {
+  moveNumber: number; // Move that made the capture, unique within a game
+  captor: string;
+  pieceType: number; // On-chain PieceType, see lib/piece-values
+  piece: string; // chess.js symbol of the captured piece
+  status: CaptureStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  txHash?: string;
+  lastError?: string;
+  createdAt: number;
+}
+
+export interface CaptureOutbox {
+  gameId: number;
+  fromBlock?: string; // Block before the first relay request, where event reconciliation starts
+  entries: CaptureOutboxEntry[];
+}
+
+export interface CaptureEventLog {
+  captor: string;
+  pieceType: number;
+  transactionHash: string;
+}
+
+const OUTBOX_KEY = 'minichess_capture_outbox';
+
+export const MAX_CAPTURE_ATTEMPTS = 6;
+const BASE_RETRY_DELAY = 2000; // ms, doubled after every failed attempt
+const MAX_RETRY_DELAY = 60000;
+
+// A submitted capture may still be mining after a reload; wait this long
+// and look for its PieceCaptured event before sending it again
+export const SUBMISSION_GRACE_PERIOD = 60000;
+
+const outboxKey = (gameId: number) => `${OUTBOX_KEY}_${gameId}`;
+
+export function loadCaptureOutbox(gameId: number): CaptureOutbox {
+  if (typeof window === 'undefined') return { gameId, entries: [] };
+
+  try {
+    const stored = localStorage.getItem(outboxKey(gameId));
+    return stored ? JSON.parse(stored) : { gameId, entries: [] };
+  } catch {
+    return { gameId, entries: [] };
+  }
+}
+
+export function saveCaptureOutbox(outbox: CaptureOutbox) {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(outboxKey(outbox.gameId), JSON.stringify(outbox));
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY);
+}
+
+/**
+ * Pair captures with the PieceCaptured events that paid them out
+ * Events carry no move number, so the n-th event for a captor and piece type
+ * belongs to the n-th capture (by move number) for that captor and piece type
+ * Returns the matched event for each paid capture, keyed by move number
+ */
+export function matchCaptureEvents(
+  captures: Pick<CaptureOutboxEntry, 'moveNumber' | 'captor' | 'pieceType'>[],
+  events: CaptureEventLog[]
+): Map<number, CaptureEventLog> {
+  const eventsByKey = new Map<string, CaptureEventLog[]>();
+  for (const event of events) {
+    const key = `${event.captor.toLowerCase()}:${event.pieceType}`;
+    eventsByKey.set(key, [...(eventsByKey.get(key) || []), event]);
+  }
+
+  const matched = new Map<number, CaptureEventLog>();
+  for (const capture of [...captures].sort((a, b) => a.moveNumber - b.moveNumber)) {
+    const event = eventsByKey.get(`${capture.captor.toLowerCase()}:${capture.pieceType}`)?.shift();
+    if (event) matched.set(capture.moveNumber, event);
+  }
+  return matched;
+}
+
+/**
+ * Mark entries confirmed when a matching PieceCaptured event exists
+ */
+export function reconcileCaptureEvents(entries: CaptureOutboxEntry[], events: CaptureEventLog[]): CaptureOutboxEntry[] {
+  const matched = matchCaptureEvents(entries, events);
+
+  return entries.map(entry => {
+    const event = matched.get(entry.moveNumber);
+    if (!event) return entry;
+
+    return {
+      ...entry,
+      status: 'confirmed' as const,
+      txHash: entry.txHash || event.transactionHash,
+      lastError: undefined
+    };
+  });
+}
@@ -0,0 +1,157 @@
+import { Chess } from 'chess.js';
+import { TransactionReceipt, decodeFunctionData, recoverMessageAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { findCaptures, relayPendingCaptures } from '@/lib/capture-relay';
+import { GAME_STATUS, readBlockNumber, readEscrowGame, readPieceCapturedEvents } from '@/lib/escrow-game';
+import { GameMove } from '@/lib/game-moves';
+import { miniChessEscrowPaymasterAbi } from '@/lib/minichess-client';
+import { buildCaptureMessageHash } from '@/lib/move-signature';
+import { getMoveStore } from '@/lib/move-store';
+import { DEFAULT_CHAIN_ID } from '@/lib/networks';
+
+const RELAYER = privateKeyToAccount(`0x${'5'.repeat(64)}`);
+const ARBITER = privateKeyToAccount(`0x${'4'.repeat(64)}`);
+const TX_HASH = `0x${'cd'.repeat(32)}` as const;
+const CONTRACT = '0x3333333333333333333333333333333333333333';
+
+const relayBundler = vi.hoisted(() => ({ execute: vi.fn() }));
+
+vi.mock('@/lib/relayer', () => ({
+  getRelayBundler: () => relayBundler,
+  getRelayerAccount: () => RELAYER,
+  getArbiterAccount: () => ARBITER
+}));
+
+vi.mock('@/lib/networks', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/networks')>(),
+  getContractAddress: () => CONTRACT
+}));
+
+vi.mock('@/lib/escrow-game', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/escrow-game')>(),
+  readEscrowGame: vi.fn(),
+  readBlockNumber: vi.fn(),
+  readPieceCapturedEvents: vi.fn()
+}));
+
+const PLAYERS = {
+  player1: '0x1111111111111111111111111111111111111111',
+  player2: '0x2222222222222222222222222222222222222222'
+} as const;
+
+// Stored moves for a game played in SAN, alternating between the players
+function toMoves(sans: string[]): GameMove[] {
+  const chess = new Chess();
+  return sans.map((san, index) => {
+    const move = chess.move(san);
+    return {
+      from: move.from,
+      to: move.to,
+      promotion: move.promotion,
+      player: move.color === 'w' ? PLAYERS.player1 : PLAYERS.player2,
+      timestamp: index,
+      moveNumber: index + 1
+    };
+  });
+}
+
+describe('findCaptures', () => {
+  it('credits each capture to the player whose move made it', () => {
+    const moves = toMoves(['e4', 'd5', 'exd5', 'Qxd5', 'Nc3', 'Qxa2']);
+
+    expect(findCaptures(moves, PLAYERS)).toEqual([
+      { moveNumber: 3, captor: PLAYERS.player1, pieceType: 0, piece: 'p', txHash: undefined },
+      { moveNumber: 4, captor: PLAYERS.player2, pieceType: 0, piece: 'p', txHash: undefined },
+      { moveNumber: 6, captor: PLAYERS.player2, pieceType: 0, piece: 'p', txHash: undefined }
+    ]);
+  });
+
+  it('carries over the recorded capture transaction', () => {
+    const moves = toMoves(['e4', 'd5', 'exd5']);
+    moves[2].captureTxHash = '0xpaid';
+
+    expect(findCaptures(moves, PLAYERS)[0].txHash).toBe('0xpaid');
+  });
+
+  it('maps the captured piece to its on-chain type', () => {
+    const moves = toMoves(['e4', 'f5', 'Qh5+', 'g6', 'exf5', 'gxh5']);
+
+    expect(findCaptures(moves, PLAYERS).map(({ piece, pieceType }) => [piece, pieceType])).toEqual([
+      ['p', 0],
+      ['q', 4]
+    ]);
+  });
+
+  it('returns nothing for a game without captures', () => {
+    expect(findCaptures(toMoves(['e4', 'e5', 'Nf3']), PLAYERS)).toEqual([]);
+  });
+
+  it('throws on an illegal stored history', () => {
+    const moves = toMoves(['e4']);
+    moves.push({ ...moves[0], from: 'e2', to: 'e5', moveNumber: 2 });
+
+    expect(() => findCaptures(moves, PLAYERS)).toThrow('Stored move 2 (e2 -> e5) is illegal');
+  });
+});
+
+describe('relayPendingCaptures', () => {
+  let gameId = 3000;
+
+  beforeEach(() => {
+    gameId++;
+    vi.clearAllMocks();
+    vi.mocked(readEscrowGame).mockResolvedValue({
+      ...PLAYERS,
+      player1Balance: 10n ** 18n,
+      player2Balance: 10n ** 18n,
+      status: GAME_STATUS.ACTIVE,
+      winner: '0x0000000000000000000000000000000000000000',
+      createdAt: 0n,
+      lastMoveAt: 0n
+    });
+    vi.mocked(readBlockNumber).mockResolvedValue(100n);
+    vi.mocked(readPieceCapturedEvents).mockResolvedValue([]);
+    vi.mocked(relayBundler.execute).mockResolvedValue({
+      receipt: {} as TransactionReceipt,
+      userOpHash: 'capture',
+      transactionHash: TX_HASH,
+      transactionHashes: [TX_HASH]
+    });
+  });
+
+  async function store(sans: string[]) {
+    for (const [index, move] of toMoves(sans).entries()) {
+      await getMoveStore().append(gameId, index, move);
+    }
+  }
+
+  it('sends each capture from the relayer with the arbiter signature for its move', async () => {
+    await store(['e4', 'd5', 'exd5']);
+
+    const captures = await relayPendingCaptures(gameId, DEFAULT_CHAIN_ID);
+
+    expect(captures).toEqual([{ moveNumber: 3, captor: PLAYERS.player1, pieceType: 0, piece: 'p', txHash: TX_HASH }]);
+    const [sender, [operation], options] = vi.mocked(relayBundler.execute).mock.calls[0];
+    expect(sender).toBe(RELAYER.address);
+    expect(operation.target).toBe(CONTRACT);
+    expect(options).toEqual({ idempotencyKey: `capture-${gameId}-3` });
+
+    const call = decodeFunctionData({ abi: miniChessEscrowPaymasterAbi, data: operation.data });
+    expect(call.functionName).toBe('capturePiecePaymaster');
+    const [, moveNumber, captor, pieceType, signature] = call.args as [bigint, bigint, string, number, `0x${string}`];
+    expect([moveNumber, captor, pieceType]).toEqual([3n, PLAYERS.player1, 0]);
+    expect(await recoverMessageAddress({
+      message: { raw: buildCaptureMessageHash({ gameId, moveNumber: 3, captor: PLAYERS.player1, pieceType: 0, chainId: DEFAULT_CHAIN_ID }) },
+      signature
+    })).toBe(ARBITER.address);
+  });
+
+  it('does not send a capture that is already paid', async () => {
+    await store(['e4', 'd5', 'exd5']);
+    await relayPendingCaptures(gameId, DEFAULT_CHAIN_ID);
+
+    expect((await relayPendingCaptures(gameId, DEFAULT_CHAIN_ID))[0].txHash).toBe(TX_HASH);
+    expect(relayBundler.execute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { Chess, Move, PieceSymbol } from 'chess.js';
+import { Address } from 'viem';
+import { matchCaptureEvents } from '@/lib/capture-outbox';
+import { GAME_STATUS, readBlockNumber, readEscrowGame, readPieceCapturedEvents } from '@/lib/escrow-game';
+import { GameMove, GamePlayers } from '@/lib/game-moves';
+import { buildCaptureMessageHash } from '@/lib/move-signature';
+import { getMinichessCalls } from '@/lib/minichess-client';
+import { getMoveStore } from '@/lib/move-store';
+import { PIECE_TYPE_MAP } from '@/lib/piece-values';
+import { getArbiterAccount, getRelayBundler, getRelayerAccount } from '@/lib/relayer';
+
+// Long enough for the bundler to mine the capture before another relay may retry it
+const CAPTURE_LOCK_SECONDS = 120;
+
+export interface BoardCapture {
+  moveNumber: number;
+  captor: string; // On-chain player whose move made the capture
+  pieceType: number; // On-chain PieceType
+  piece: PieceSymbol;
+  txHash?: string; // Set once the capture is paid out
+}
+
+/**
+ * Every capture in a stored move log, derived by replaying it through chess.js
+ * player1 plays white and player2 plays black
+ * Throws if the stored history is illegal
+ */
+export function findCaptures(moves: GameMove[], players: GamePlayers): BoardCapture[] {
+  const chess = new Chess();
+  const captures: BoardCapture[] = [];
+
+  for (const stored of moves) {
+    let move: Move;
+    try {
+      move = chess.move({ from: stored.from, to: stored.to, promotion: stored.promotion });
+    } catch {
+      throw new Error(`Stored move ${stored.moveNumber} (${stored.from} -> ${stored.to}) is illegal`);
+    }
+
+    if (move.captured) {
+      captures.push({
+        moveNumber: stored.moveNumber,
+        captor: move.color === 'w' ? players.player1 : players.player2,
+        pieceType: PIECE_TYPE_MAP[move.captured],
+        piece: move.captured,
+        txHash: stored.captureTxHash
+      });
+    }
+  }
+
+  return captures;
+}
+
+/**
+ * Sign CAPTURE_PIECE with the arbiter key and send capturePiecePaymaster from the relayer
+ * The contract pays only captures the arbiter signed, once per move
+ * Returns the transaction hash once it is mined successfully
+ */
+async function submitCapture(gameId: number, capture: BoardCapture, chainId: number): Promise<string> {
+  const account = getRelayerAccount();
+
+  const signature = await getArbiterAccount().signMessage({
+    message: {
+      raw: buildCaptureMessageHash({
+        gameId,
+        moveNumber: capture.moveNumber,
+        captor: capture.captor,
+        pieceType: capture.pieceType,
+        chainId
+      })
+    }
+  });
+
+  const operation = getMinichessCalls(chainId).capturePiecePaymaster(
+    gameId,
+    capture.moveNumber,
+    capture.captor as Address,
+    capture.pieceType,
+    signature
+  );
+
+  // One key per game and move, so a retried request never pays a capture twice
+  const { transactionHash } = await getRelayBundler(chainId).execute(account.address, [operation], {
+    idempotencyKey: `capture-${gameId}-${capture.moveNumber}`
+  });
+  return transactionHash;
+}
+
+/**
+ * Pay out every capture in the game's move log that has not been paid yet
+ * Captor and piece come from the validated move log, never from a client.
+ * Each capture is sent under a per-move lock that becomes a permanent paid
+ * marker once it succeeds, and PieceCaptured events are checked first so a
+ * capture whose hash was never recorded is not paid twice
+ * Returns all captures with their transaction hashes so far
+ */
+export async function relayPendingCaptures(gameId: number, chainId: number): Promise<BoardCapture[]> {
+  const store = getMoveStore(chainId);
+  const [moves, onChainGame, metadata] = await Promise.all([
+    store.list(gameId),
+    readEscrowGame(gameId, chainId),
+    store.getMetadata(gameId)
+  ]);
+
+  const captures = findCaptures(moves, onChainGame);
+  if (onChainGame.status !== GAME_STATUS.ACTIVE || captures.every(capture => capture.txHash)) {
+    return captures;
+  }
+
+  // Relayed captures can only be on-chain after the block recorded before the first one
+  if (metadata.captureFromBlock) {
+    const events = await readPieceCapturedEvents(gameId, BigInt(metadata.captureFromBlock as string), chainId);
+    const matched = matchCaptureEvents(captures, events);
+
+    for (const capture of captures) {
+      const event = matched.get(capture.moveNumber);
+      if (capture.txHash || !event) continue;
+
+      console.log(`[Capture Relay] Game ${gameId} move ${capture.moveNumber} already paid in ${event.transactionHash}`);
+      await store.setCaptureTxHash(gameId, capture.moveNumber, event.transactionHash);
+      capture.txHash = event.transactionHash;
+    }
+  } else {
+    await store.setMetadata(gameId, { captureFromBlock: (await readBlockNumber(chainId)).toString() });
+  }
+
+  for (const capture of captures) {
+    if (capture.txHash) continue;
+    if (!await store.claimCapture(gameId, capture.moveNumber, CAPTURE_LOCK_SECONDS)) continue;
+
+    // Another relay may have paid it between our read of the log and taking the lock
+    const paidTxHash = (await store.list(gameId))[capture.moveNumber - 1]?.captureTxHash;
+    if (paidTxHash) {
+      await store.markCapturePaid(gameId, capture.moveNumber, paidTxHash);
+      capture.txHash = paidTxHash;
+      continue;
+    }
+
+    let txHash: string;
+    try {
+      txHash = await submitCapture(gameId, capture, chainId);
+    } catch (error) {
+      console.error(`[Capture Relay] Game ${gameId} move ${capture.moveNumber} failed:`, error);
+      await store.releaseCapture(gameId, capture.moveNumber);
+      continue;
+    }
+
+    // Keep the lock as a paid marker, even if recording the hash on the move fails
+    await store.markCapturePaid(gameId, capture.moveNumber, txHash);
+    await store.setCaptureTxHash(gameId, capture.moveNumber, txHash);
+    capture.txHash = txHash;
+    console.log(`[Capture Relay] Game ${gameId} move ${capture.moveNumber}: ${capture.piece} for ${capture.captor.slice(0, 6)}... in ${txHash}`);
+  }
+
+  return captures;
+}
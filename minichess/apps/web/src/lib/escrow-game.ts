@@ -0,0 +1,146 @@
+import { decodeEventLog, TransactionReceipt } from 'viem';
+import type { CaptureEventLog } from '@/lib/capture-outbox';
+import {
+  Game,
+  getGame,
+  getPublicClient,
+  miniChessEscrowPaymasterAbi
+} from '@/lib/minichess-client';
+import { getContractAddress } from '@/lib/networks';
+
+// Game Status: 0 = WAITING, 1 = ACTIVE, 2 = FINISHED, 3 = CANCELLED
+export const GAME_STATUS = {
+  WAITING: 0,
+  ACTIVE: 1,
+  FINISHED: 2,
+  CANCELLED: 3
+} as const;
+
+export const GAME_STATUS_NAMES = ['WAITING', 'ACTIVE', 'FINISHED', 'CANCELLED'];
+
+// Matches GAME_TIMEOUT in the escrow contract: a win can be claimed this long after lastMoveAt
+export const GAME_TIMEOUT_SECONDS = 30 * 60;
+
+export type EscrowGame = Game;
+
+/**
+ * Read a game from the escrow contract via getGame
+ */
+export async function readEscrowGame(gameId: number, chainId?: number): Promise<EscrowGame> {
+  return getGame(gameId, chainId);
+}
+
+export type SerializedEscrowGame = Omit<EscrowGame, 'player1Balance' | 'player2Balance' | 'createdAt' | 'lastMoveAt'> & {
+  player1Balance: string;
+  player2Balance: string;
+  createdAt: string;
+  lastMoveAt: string;
+};
+
+/**
+ * Convert bigint fields to strings so a game can be sent as JSON
+ */
+export function serializeEscrowGame(game: EscrowGame): SerializedEscrowGame {
+  return {
+    ...game,
+    player1Balance: game.player1Balance.toString(),
+    player2Balance: game.player2Balance.toString(),
+    createdAt: game.createdAt.toString(),
+    lastMoveAt: game.lastMoveAt.toString()
+  };
+}
+
+export interface GameEndedEvent {
+  gameId: bigint;
+  winner: string;
+  player1Payout: bigint;
+  player2Payout: bigint;
+  timedOut: boolean; // Ended through claimTimeout (GameTimedOut was also emitted)
+  isDraw: boolean; // Ended through endGameDraw (GameDrawn was also emitted, winner is zero)
+  transactionHash: `0x${string}`;
+  blockNumber: bigint;
+}
+
+/**
+ * Find the GameEnded event in a settlement receipt
+ * Returns null if the transaction did not end a game
+ */
+function parseGameEndedEvent(receipt: TransactionReceipt, chainId?: number): GameEndedEvent | null {
+  const contractAddress = getContractAddress(chainId).toLowerCase();
+  let ended: Omit<GameEndedEvent, 'timedOut' | 'isDraw' | 'transactionHash' | 'blockNumber'> | null = null;
+  let timedOut = false;
+  let isDraw = false;
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== contractAddress) continue;
+
+    try {
+      const event = decodeEventLog({
+        abi: miniChessEscrowPaymasterAbi,
+        data: log.data,
+        topics: log.topics
+      });
+
+      if (event.eventName === 'GameEnded') {
+        ended = event.args;
+      } else if (event.eventName === 'GameTimedOut') {
+        timedOut = true;
+      } else if (event.eventName === 'GameDrawn') {
+        isDraw = true;
+      }
+    } catch {
+      // Not an escrow event
+    }
+  }
+
+  if (!ended) return null;
+
+  return {
+    ...ended,
+    timedOut,
+    isDraw,
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber
+  };
+}
+
+/**
+ * Read the GameEnded event from an already mined settlement transaction
+ */
+export async function readGameEndedEvent(txHash: `0x${string}`, chainId?: number): Promise<GameEndedEvent | null> {
+  return parseGameEndedEvent(await getPublicClient(chainId).getTransactionReceipt({ hash: txHash }), chainId);
+}
+
+/**
+ * Wait for a settlement transaction to be mined and return its GameEnded event
+ */
+export async function waitForGameEnded(txHash: `0x${string}`, chainId?: number): Promise<GameEndedEvent | null> {
+  return parseGameEndedEvent(await getPublicClient(chainId).waitForTransactionReceipt({ hash: txHash }), chainId);
+}
+
+/**
+ * Latest block number, used as the starting point for event scans
+ */
+export async function readBlockNumber(chainId?: number): Promise<bigint> {
+  return getPublicClient(chainId).getBlockNumber();
+}
+
+/**
+ * PieceCaptured events for a game from fromBlock on, oldest first
+ * Callers record a block before the first capture they send, so scans never start at genesis
+ */
+export async function readPieceCapturedEvents(gameId: number, fromBlock: bigint, chainId?: number): Promise<CaptureEventLog[]> {
+  const logs = await getPublicClient(chainId).getContractEvents({
+    address: getContractAddress(chainId),
+    abi: miniChessEscrowPaymasterAbi,
+    eventName: 'PieceCaptured',
+    args: { gameId: BigInt(gameId) },
+    fromBlock
+  });
+
+  return logs.map(log => ({
+    captor: log.args.captor!,
+    pieceType: log.args.pieceType!,
+    transactionHash: log.transactionHash
+  }));
+}
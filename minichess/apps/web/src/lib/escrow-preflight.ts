@@ -0,0 +1,74 @@
+import { Address, erc20Abi, formatEther } from 'viem';
+import { getEscrowAmount, getPublicClient, getUserRateLimit } from '@/lib/minichess-client';
+import { getContractAddress, getNetwork } from '@/lib/networks';
+
+export interface EscrowPreflight {
+  escrowAmount: bigint; // ESCROW_AMOUNT read from the contract
+  balance: bigint; // Player's cUSD balance
+  allowance: bigint; // cUSD the escrow may already spend
+  shortfall: bigint; // cUSD missing for the deposit, zero when the balance covers it
+  needsApproval: boolean; // An approve has to be sent with the create or join call
+  sponsorship: {
+    remaining: bigint; // Sponsored operations left in the paymaster's window
+    resetsAt: number | null; // ms timestamp, null when no window is running
+    needed: number; // Operations the create or join batch sends
+  } | null; // null when no paymaster is configured
+}
+
+/**
+ * Everything a create or join needs to succeed, read before the player signs anything
+ */
+export async function readEscrowPreflight(owner: Address, chainId?: number): Promise<EscrowPreflight> {
+  const { stablecoins, name } = getNetwork(chainId);
+  if (!stablecoins.cUSD) {
+    throw new Error(`No cUSD token configured for ${name}`);
+  }
+
+  const client = getPublicClient(chainId);
+  const token = { address: stablecoins.cUSD, abi: erc20Abi } as const;
+
+  const [escrowAmount, balance, allowance, rateLimit] = await Promise.all([
+    getEscrowAmount(chainId),
+    client.readContract({ ...token, functionName: 'balanceOf', args: [owner] }),
+    client.readContract({ ...token, functionName: 'allowance', args: [owner, getContractAddress(chainId)] }),
+    getUserRateLimit(owner, chainId).catch(error => {
+      console.warn('[Preflight] Could not read sponsorship limit:', error);
+      return null;
+    })
+  ]);
+
+  const needsApproval = allowance < escrowAmount;
+
+  return {
+    escrowAmount,
+    balance,
+    allowance,
+    shortfall: balance < escrowAmount ? escrowAmount - balance : 0n,
+    needsApproval,
+    sponsorship: rateLimit && {
+      remaining: rateLimit.remaining,
+      resetsAt: rateLimit.resetTime > 0n ? Number(rateLimit.resetTime) * 1000 : null,
+      needed: needsApproval ? 2 : 1
+    }
+  };
+}
+
+/**
+ * Why a create or join would fail, or null if it can go ahead
+ */
+export function getPreflightBlocker(preflight: EscrowPreflight): string | null {
+  if (preflight.shortfall > 0n) {
+    return `You need ${formatEther(preflight.escrowAmount)} cUSD to play; ${formatEther(preflight.shortfall)} cUSD short`;
+  }
+  return null;
+}
+
+/**
+ * Where to get cUSD on a network
+ */
+export function getFundingHint(chainId?: number): string {
+  const { faucetUrl, testnet } = getNetwork(chainId);
+  if (faucetUrl) return `Get test cUSD from ${faucetUrl}`;
+  if (testnet) return 'Mint cUSD from the mock token deployed with the contract';
+  return 'Add cUSD in MiniPay or swap for it in your wallet';
+}
@@ -0,0 +1,131 @@
+import { GameMove, GamePlayers, replayMoves } from '@/lib/game-moves';
+import type { SessionKeyAuthorization } from '@/lib/move-signature';
+
+export type GameActionType = 'resign' | 'offer_draw' | 'accept_draw' | 'decline_draw';
+
+export const GAME_ACTION_TYPES: GameActionType[] = ['resign', 'offer_draw', 'accept_draw', 'decline_draw'];
+
+export interface GameAction {
+  action: GameActionType;
+  player: string;
+  actionNumber: number; // 1-based position in the game's action log
+  moveNumber: number; // Moves on the board when the action was taken
+  timestamp: number;
+  signature?: string; // GAME_ACTION signature from the player or their session key, see lib/move-signature
+  sessionKey?: SessionKeyAuthorization; // Present when a session key signed the action
+}
+
+export interface GameActionState {
+  resignedBy: string | null;
+  drawAgreed: boolean;
+  drawOffer: GameAction | null; // Offer still waiting for an answer
+}
+
+export type GameActionRejectionCode =
+  | 'CORRUPT_HISTORY'
+  | 'NOT_A_PLAYER'
+  | 'GAME_OVER'
+  | 'DRAW_OFFER_PENDING'
+  | 'NO_DRAW_OFFER';
+
+export type GameActionValidationResult =
+  | { ok: true; state: GameActionState }
+  | { ok: false; status: 403 | 409 | 500; code: GameActionRejectionCode; error: string };
+
+/**
+ * Whether the opponent has moved since a draw offer was made, which declines it
+ * player1 plays white, so even move indexes belong to player1
+ */
+function isOfferLapsed(offer: GameAction, moveCount: number, players: GamePlayers): boolean {
+  const offeredByWhite = offer.player.toLowerCase() === players.player1.toLowerCase();
+
+  for (let index = offer.moveNumber; index < moveCount; index++) {
+    const movedByWhite = index % 2 === 0;
+    if (movedByWhite !== offeredByWhite) return true;
+  }
+  return false;
+}
+
+/**
+ * Fold the action log into the game's resignation and draw-offer state
+ */
+export function getGameActionState(actions: GameAction[], moveCount: number, players: GamePlayers): GameActionState {
+  const state: GameActionState = { resignedBy: null, drawAgreed: false, drawOffer: null };
+
+  for (const action of actions) {
+    switch (action.action) {
+      case 'resign':
+        state.resignedBy = action.player;
+        break;
+      case 'offer_draw':
+        state.drawOffer = action;
+        break;
+      case 'accept_draw':
+        state.drawAgreed = true;
+        state.drawOffer = null;
+        break;
+      case 'decline_draw':
+        state.drawOffer = null;
+        break;
+    }
+  }
+
+  if (state.drawOffer && isOfferLapsed(state.drawOffer, moveCount, players)) {
+    state.drawOffer = null;
+  }
+
+  return state;
+}
+
+/**
+ * Validate a submitted action against the action log, the board and the on-chain players
+ */
+export function validateGameAction(
+  actions: GameAction[],
+  moves: GameMove[],
+  submitted: { action: GameActionType; player: string },
+  players: GamePlayers
+): GameActionValidationResult {
+  const player = submitted.player.toLowerCase();
+  const isPlayer = player === players.player1.toLowerCase() || player === players.player2.toLowerCase();
+
+  if (!isPlayer) {
+    return { ok: false, status: 403, code: 'NOT_A_PLAYER', error: 'Address is not a player in this game' };
+  }
+
+  try {
+    if (replayMoves(moves).isGameOver()) {
+      return { ok: false, status: 409, code: 'GAME_OVER', error: 'Game is already over on the board' };
+    }
+  } catch (error) {
+    return {
+      ok: false,
+      status: 500,
+      code: 'CORRUPT_HISTORY',
+      error: error instanceof Error ? error.message : 'Stored move history is invalid'
+    };
+  }
+
+  const state = getGameActionState(actions, moves.length, players);
+
+  if (state.resignedBy || state.drawAgreed) {
+    return {
+      ok: false,
+      status: 409,
+      code: 'GAME_OVER',
+      error: state.resignedBy ? 'A player has already resigned' : 'A draw has already been agreed'
+    };
+  }
+
+  if (submitted.action === 'offer_draw' && state.drawOffer) {
+    return { ok: false, status: 409, code: 'DRAW_OFFER_PENDING', error: 'A draw offer is already waiting for an answer' };
+  }
+
+  if (submitted.action === 'accept_draw' || submitted.action === 'decline_draw') {
+    if (!state.drawOffer || state.drawOffer.player.toLowerCase() === player) {
+      return { ok: false, status: 409, code: 'NO_DRAW_OFFER', error: 'There is no draw offer from your opponent' };
+    }
+  }
+
+  return { ok: true, state };
+}
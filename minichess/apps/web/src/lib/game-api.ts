@@ -0,0 +1,16 @@
+/**
+ * Path of a game API route, e.g. gameApiUrl(7, chainId, 'moves')
+ * Game IDs are only unique per contract, so every request names its chain
+ */
+export function gameApiUrl(
+  gameId: number | string,
+  chainId: number,
+  route: string,
+  params: Record<string, string | number> = {}
+): string {
+  const query = new URLSearchParams({ chainId: String(chainId) });
+  for (const [key, value] of Object.entries(params)) {
+    query.set(key, String(value));
+  }
+  return `/api/games/${gameId}/${route}?${query}`;
+}
@@ -0,0 +1,161 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { GameMove, classifyDraw, parseMoveSubmission, validateMove } from '@/lib/game-moves';
+
+const PLAYERS = {
+  player1: '0x1111111111111111111111111111111111111111',
+  player2: '0x2222222222222222222222222222222222222222'
+};
+
+// Stored moves for a game played in SAN, alternating between the players
+function toMoves(sans: string[]): GameMove[] {
+  const chess = new Chess();
+  return sans.map((san, index) => {
+    const move = chess.move(san);
+    return {
+      from: move.from,
+      to: move.to,
+      promotion: move.promotion,
+      player: move.color === 'w' ? PLAYERS.player1 : PLAYERS.player2,
+      timestamp: index,
+      moveNumber: index + 1
+    };
+  });
+}
+
+// Shortest known stalemate (Sam Loyd)
+const STALEMATE = [
+  'e3', 'a5', 'Qh5', 'Ra6', 'Qxa5', 'h5', 'h4', 'Rah6', 'Qxc7', 'f6',
+  'Qxd7+', 'Kf7', 'Qxb7', 'Qd3', 'Qxb8', 'Qh7', 'Qxc8', 'Kg6', 'Qe6'
+];
+
+// Both knights out and back twice: the starting position occurs a third time
+const REPETITION = ['Nf3', 'Nf6', 'Ng1', 'Ng8', 'Nf3', 'Nf6', 'Ng1', 'Ng8'];
+
+const SUBMISSION = {
+  from: 'e2',
+  to: 'e4',
+  player: PLAYERS.player1,
+  signature: '0x1234',
+  expectedMoveNumber: 1
+};
+
+describe('parseMoveSubmission', () => {
+  it('accepts a well-formed move', () => {
+    expect(parseMoveSubmission(SUBMISSION)).toEqual({
+      ok: true,
+      submission: { ...SUBMISSION, promotion: undefined, sessionKey: undefined }
+    });
+  });
+
+  it('accepts a promotion and a session key authorization', () => {
+    const sessionKey = { sessionKey: PLAYERS.player2, validUntil: 1700000000, kind: 'session', signature: '0xabcd' };
+
+    const parsed = parseMoveSubmission({ ...SUBMISSION, promotion: 'q', sessionKey });
+
+    expect(parsed.ok && parsed.submission).toMatchObject({ promotion: 'q', sessionKey });
+  });
+
+  it('rejects a body that is not an object', () => {
+    expect(parseMoveSubmission(null)).toMatchObject({ ok: false });
+    expect(parseMoveSubmission('e2e4')).toMatchObject({ ok: false });
+    expect(parseMoveSubmission([SUBMISSION])).toMatchObject({ ok: false });
+  });
+
+  it('reports missing fields', () => {
+    const { signature: _, ...unsigned } = SUBMISSION;
+
+    expect(parseMoveSubmission(unsigned)).toEqual({
+      ok: false,
+      error: 'Missing required fields: from, to, player, signature, expectedMoveNumber'
+    });
+  });
+
+  it('rejects fields of the wrong type', () => {
+    expect(parseMoveSubmission({ ...SUBMISSION, player: 42 })).toEqual({ ok: false, error: 'player must be an address' });
+    expect(parseMoveSubmission({ ...SUBMISSION, player: { slice: 'x' } })).toEqual({ ok: false, error: 'player must be an address' });
+    expect(parseMoveSubmission({ ...SUBMISSION, from: 'z9' })).toMatchObject({ ok: false });
+    expect(parseMoveSubmission({ ...SUBMISSION, promotion: 'k' })).toMatchObject({ ok: false });
+    expect(parseMoveSubmission({ ...SUBMISSION, signature: 'not hex' })).toMatchObject({ ok: false });
+    expect(parseMoveSubmission({ ...SUBMISSION, sessionKey: { sessionKey: 'nope' } })).toMatchObject({ ok: false });
+    expect(parseMoveSubmission({ ...SUBMISSION, expectedMoveNumber: '1' })).toMatchObject({ ok: false });
+    expect(parseMoveSubmission({ ...SUBMISSION, expectedMoveNumber: 0 })).toMatchObject({ ok: false });
+  });
+});
+
+describe('validateMove', () => {
+  it('accepts a legal move by the player to move', () => {
+    const result = validateMove(toMoves(['e4']), { from: 'e7', to: 'e5', player: PLAYERS.player2 }, PLAYERS);
+
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.position.fen()).toBe('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2');
+  });
+
+  it('matches players case-insensitively', () => {
+    const result = validateMove([], { from: 'e2', to: 'e4', player: PLAYERS.player1.toUpperCase().replace('0X', '0x') }, PLAYERS);
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('rejects an address that is not in the game', () => {
+    const result = validateMove([], { from: 'e2', to: 'e4', player: '0x3333333333333333333333333333333333333333' }, PLAYERS);
+
+    expect(result).toMatchObject({ ok: false, status: 403, code: 'NOT_A_PLAYER' });
+  });
+
+  it('rejects a move out of turn', () => {
+    const result = validateMove(toMoves(['e4']), { from: 'd2', to: 'd4', player: PLAYERS.player1 }, PLAYERS);
+
+    expect(result).toMatchObject({ ok: false, status: 409, code: 'NOT_YOUR_TURN', error: 'Not your turn: black to move' });
+  });
+
+  it('rejects an illegal move', () => {
+    const result = validateMove([], { from: 'e2', to: 'e5', player: PLAYERS.player1 }, PLAYERS);
+
+    expect(result).toMatchObject({ ok: false, status: 422, code: 'ILLEGAL_MOVE' });
+  });
+
+  it('rejects moves once the game is over on the board', () => {
+    const foolsMate = toMoves(['f3', 'e5', 'g4', 'Qh4#']);
+
+    const result = validateMove(foolsMate, { from: 'a2', to: 'a3', player: PLAYERS.player1 }, PLAYERS);
+
+    expect(result).toMatchObject({ ok: false, status: 409, code: 'GAME_OVER' });
+  });
+
+  it('reports a corrupt stored history', () => {
+    const history = toMoves(['e4']);
+    history.push({ ...history[0], moveNumber: 2 });
+
+    const result = validateMove(history, { from: 'd2', to: 'd4', player: PLAYERS.player1 }, PLAYERS);
+
+    expect(result).toMatchObject({ ok: false, status: 500, code: 'CORRUPT_HISTORY' });
+  });
+});
+
+describe('classifyDraw', () => {
+  it('returns null while the game is still being played', () => {
+    expect(classifyDraw(toMoves(['e4', 'e5']))).toBeNull();
+    expect(classifyDraw([])).toBeNull();
+  });
+
+  it('detects stalemate', () => {
+    expect(classifyDraw(toMoves(STALEMATE))).toBe('stalemate');
+  });
+
+  it('detects threefold repetition', () => {
+    expect(classifyDraw(toMoves(REPETITION))).toBe('threefold_repetition');
+  });
+
+  it('reports an agreed draw only when the board is not already drawn', () => {
+    expect(classifyDraw(toMoves(['e4', 'e5']), { agreed: true })).toBe('mutual_agreement');
+    expect(classifyDraw(toMoves(STALEMATE), { agreed: true })).toBe('stalemate');
+  });
+
+  it('throws on an illegal stored history', () => {
+    const moves = toMoves(['e4']);
+    moves.push({ ...moves[0], moveNumber: 2 });
+
+    expect(() => classifyDraw(moves)).toThrow('Stored move 2 (e2 -> e4) is illegal');
+  });
+});
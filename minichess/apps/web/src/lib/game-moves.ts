@@ -0,0 +1,204 @@
+import { Chess, Move } from 'chess.js';
+import { isAddress, isHex } from 'viem';
+import { SessionKeyAuthorization, isSessionKeyAuthorization } from '@/lib/move-signature';
+
+export interface GameMove {
+  from: string;
+  to: string;
+  promotion?: string;
+  player: string;
+  timestamp: number;
+  moveNumber: number;
+  signature?: string; // SUBMIT_MOVE signature from the player or their session key, see lib/move-signature
+  sessionKey?: SessionKeyAuthorization; // Present when a session key signed the move
+  captureTxHash?: string; // capturePiecePaymaster transaction sent by the capture relay, see lib/capture-relay
+}
+
+export interface GamePlayers {
+  player1: string; // White
+  player2: string; // Black
+}
+
+export interface MoveSubmission {
+  from: string;
+  to: string;
+  promotion?: string;
+  player: string;
+  signature: `0x${string}`;
+  sessionKey?: SessionKeyAuthorization;
+  expectedMoveNumber: number;
+}
+
+export type MoveSubmissionParseResult =
+  | { ok: true; submission: MoveSubmission }
+  | { ok: false; error: string };
+
+export type MoveRejectionCode =
+  | 'CORRUPT_HISTORY'
+  | 'NOT_A_PLAYER'
+  | 'NOT_YOUR_TURN'
+  | 'GAME_OVER'
+  | 'ILLEGAL_MOVE';
+
+export type MoveValidationResult =
+  | { ok: true; move: Move; position: Chess }
+  | { ok: false; status: 403 | 409 | 422 | 500; code: MoveRejectionCode; error: string };
+
+export type DrawReason =
+  | 'stalemate'
+  | 'threefold_repetition'
+  | 'fifty_move_rule'
+  | 'insufficient_material'
+  | 'mutual_agreement';
+
+export const DRAW_REASON_LABELS: Record<DrawReason, string> = {
+  stalemate: 'Stalemate',
+  threefold_repetition: 'Threefold repetition',
+  fifty_move_rule: 'Fifty-move rule',
+  insufficient_material: 'Insufficient material',
+  mutual_agreement: 'Draw agreed'
+};
+
+/**
+ * Why the position is drawn on the board, or null if it is not
+ */
+export function getDrawReason(chess: Chess): DrawReason | null {
+  if (chess.isStalemate()) return 'stalemate';
+  if (chess.isThreefoldRepetition()) return 'threefold_repetition';
+  if (chess.isInsufficientMaterial()) return 'insufficient_material';
+  if (chess.isDrawByFiftyMoves()) return 'fifty_move_rule';
+  return null;
+}
+
+/**
+ * Classify a draw from the stored move log
+ * A draw on the board takes precedence; otherwise an agreed draw ends a
+ * still-playable position
+ * Throws if the stored history is illegal
+ */
+export function classifyDraw(moves: GameMove[], { agreed = false } = {}): DrawReason | null {
+  return getDrawReason(replayMoves(moves)) ?? (agreed ? 'mutual_agreement' : null);
+}
+
+/**
+ * Rebuild a position by replaying a stored move list through chess.js
+ * Throws if any stored move is illegal in the replayed position
+ */
+export function replayMoves(moves: GameMove[]): Chess {
+  const chess = new Chess();
+
+  for (const move of moves) {
+    try {
+      chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+    } catch {
+      throw new Error(`Stored move ${move.moveNumber} (${move.from} -> ${move.to}) is illegal`);
+    }
+  }
+
+  return chess;
+}
+
+const SQUARE_PATTERN = /^[a-h][1-8]$/;
+const PROMOTION_PIECES = ['q', 'r', 'b', 'n'];
+
+/**
+ * Check the shape of a POSTed move body before anything reads its fields
+ */
+export function parseMoveSubmission(body: unknown): MoveSubmissionParseResult {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, error: 'Request body must be a JSON object' };
+  }
+
+  const { from, to, promotion, player, signature, sessionKey, expectedMoveNumber } = body as Record<string, unknown>;
+
+  if (!from || !to || !player || !signature || expectedMoveNumber === undefined) {
+    return { ok: false, error: 'Missing required fields: from, to, player, signature, expectedMoveNumber' };
+  }
+  if (typeof from !== 'string' || !SQUARE_PATTERN.test(from) || typeof to !== 'string' || !SQUARE_PATTERN.test(to)) {
+    return { ok: false, error: 'from and to must be squares such as e2' };
+  }
+  if (promotion != null && (typeof promotion !== 'string' || !PROMOTION_PIECES.includes(promotion))) {
+    return { ok: false, error: 'promotion must be one of q, r, b, n' };
+  }
+  if (typeof player !== 'string' || !isAddress(player)) {
+    return { ok: false, error: 'player must be an address' };
+  }
+  if (typeof signature !== 'string' || !isHex(signature)) {
+    return { ok: false, error: 'signature must be a hex string' };
+  }
+  if (sessionKey != null && !isSessionKeyAuthorization(sessionKey)) {
+    return { ok: false, error: 'sessionKey must have sessionKey, validUntil and signature' };
+  }
+  if (typeof expectedMoveNumber !== 'number' || !Number.isInteger(expectedMoveNumber) || expectedMoveNumber < 1) {
+    return { ok: false, error: 'expectedMoveNumber must be a positive integer' };
+  }
+
+  return {
+    ok: true,
+    submission: {
+      from,
+      to,
+      promotion: (promotion as string | null) ?? undefined,
+      player,
+      signature,
+      sessionKey: sessionKey ?? undefined,
+      expectedMoveNumber
+    }
+  };
+}
+
+/**
+ * Validate a submitted move against the stored history and the on-chain players
+ * player1 plays white and player2 plays black
+ */
+export function validateMove(
+  history: GameMove[],
+  submitted: Pick<MoveSubmission, 'from' | 'to' | 'promotion' | 'player'>,
+  players: GamePlayers
+): MoveValidationResult {
+  let position: Chess;
+  try {
+    position = replayMoves(history);
+  } catch (error) {
+    return {
+      ok: false,
+      status: 500,
+      code: 'CORRUPT_HISTORY',
+      error: error instanceof Error ? error.message : 'Stored move history is invalid'
+    };
+  }
+
+  const player = submitted.player.toLowerCase();
+  const isWhite = player === players.player1.toLowerCase();
+  const isBlack = player === players.player2.toLowerCase();
+
+  if (!isWhite && !isBlack) {
+    return { ok: false, status: 403, code: 'NOT_A_PLAYER', error: 'Address is not a player in this game' };
+  }
+
+  if (position.isGameOver()) {
+    return { ok: false, status: 409, code: 'GAME_OVER', error: 'Game is already over on the board' };
+  }
+
+  const turn = position.turn();
+  if ((turn === 'w' && !isWhite) || (turn === 'b' && !isBlack)) {
+    return {
+      ok: false,
+      status: 409,
+      code: 'NOT_YOUR_TURN',
+      error: `Not your turn: ${turn === 'w' ? 'white' : 'black'} to move`
+    };
+  }
+
+  try {
+    const move = position.move({ from: submitted.from, to: submitted.to, promotion: submitted.promotion });
+    return { ok: true, move, position };
+  } catch {
+    return {
+      ok: false,
+      status: 422,
+      code: 'ILLEGAL_MOVE',
+      error: `Illegal move: ${submitted.from} -> ${submitted.to}`
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import type { SessionKeyAuthorization } from '@/lib/move-signature';
+
+export interface GameSession {
+  address: string;
+  gameId: number;
+  chainId: number;
+  signature: `0x${string}`; // AUTHORIZE_SESSION signature, see lib/move-signature
+  sessionKey?: SessionKeyAuthorization; // Delegation to the game's session key, see lib/session-key
+  createdAt: number;
+  validUntil: number;
+}
+
+export type GameSessionStatus = 'none' | 'active' | 'expiring' | 'expired';
+
+export const SESSION_DURATION = 2 * 60 * 60 * 1000; // 2 hours
+export const SESSION_WARNING_PERIOD = 10 * 60 * 1000; // Warn this long before expiry
+
+const SESSION_KEY = 'minichess_session';
+
+// Sessions written before they were scoped per game
+const LEGACY_SESSION_KEY = 'gameSession';
+
+const sessionKey = (address: string, gameId: number, chainId: number) =>
+  `${SESSION_KEY}_${chainId}_${address.toLowerCase()}_${gameId}`;
+
+export function loadSession(address: string, gameId: number, chainId: number): GameSession | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(sessionKey(address, gameId, chainId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: GameSession) {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(sessionKey(session.address, session.gameId, session.chainId), JSON.stringify(session));
+}
+
+export function removeSession(address: string, gameId: number, chainId: number) {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(sessionKey(address, gameId, chainId));
+}
+
+/**
+ * Remove every stored session for an address, on any game or chain
+ */
+export function removeSessionsFor(address: string) {
+  if (typeof window === 'undefined') return;
+
+  const suffix = `_${address.toLowerCase()}_`;
+  const keys = Object.keys(localStorage).filter(key => key.startsWith(`${SESSION_KEY}_`) && key.includes(suffix));
+  keys.forEach(key => localStorage.removeItem(key));
+  localStorage.removeItem(LEGACY_SESSION_KEY);
+}
+
+export function getSessionStatus(session: GameSession | null, now = Date.now()): GameSessionStatus {
+  if (!session) return 'none';
+  if (now >= session.validUntil) return 'expired';
+  if (session.validUntil - now <= SESSION_WARNING_PERIOD) return 'expiring';
+  return 'active';
+}
@@ -0,0 +1,199 @@
+import { Chess } from 'chess.js';
+import { GameMove } from '@/lib/game-moves';
+import { GameAction } from '@/lib/game-actions';
+import { readEscrowGame, serializeEscrowGame, SerializedEscrowGame } from '@/lib/escrow-game';
+import { getMoveStore } from '@/lib/move-store';
+
+const VERSION_POLL_INTERVAL = 1000; // ms between store version checks per game
+const STATUS_POLL_INTERVAL = 15000; // ms between getGame reads per game
+
+export interface CaptureEvent {
+  moveNumber: number;
+  captor: string;
+  piece: string;
+}
+
+export type GameStreamEvent =
+  | { event: 'move'; id: number; data: GameMove }
+  | { event: 'capture'; data: CaptureEvent }
+  | { event: 'action'; data: GameAction }
+  | { event: 'status'; data: SerializedEscrowGame }
+  | { event: 'reset'; data: { reason: string } };
+
+type Subscriber = (event: GameStreamEvent) => void;
+
+interface GameFeed {
+  gameId: number;
+  chainId: number;
+  moves: GameMove[];
+  captures: CaptureEvent[];
+  actions: GameAction[];
+  position: Chess;
+  status: SerializedEscrowGame | null;
+  subscribers: Set<Subscriber>;
+  timer: ReturnType<typeof setTimeout> | null;
+  polling: boolean;
+  version: number; // Store version the feed has caught up to
+  lastStatusCheck: number;
+}
+
+// One poller per game shared by every open stream in this process, keyed by
+// `${chainId}:${gameId}`. Each tick reads only the game's version counter;
+// the logs are read when it moves
+const feeds = new Map<string, GameFeed>();
+
+function broadcast(feed: GameFeed, event: GameStreamEvent) {
+  feed.subscribers.forEach(subscriber => subscriber(event));
+}
+
+function resetFeed(feed: GameFeed, reason: string) {
+  feed.moves = [];
+  feed.captures = [];
+  feed.actions = [];
+  feed.position = new Chess();
+  broadcast(feed, { event: 'reset', data: { reason } });
+}
+
+function applyMoves(feed: GameFeed, moves: GameMove[]) {
+  for (const move of moves) {
+    if (move.moveNumber !== feed.moves.length + 1) {
+      resetFeed(feed, 'Move history changed');
+      return;
+    }
+
+    let captured: string | undefined;
+    try {
+      captured = feed.position.move({ from: move.from, to: move.to, promotion: move.promotion }).captured;
+    } catch {
+      console.error(`[Game Stream ${feed.gameId}] Stored move ${move.moveNumber} is illegal, stopping replay`);
+      return;
+    }
+
+    feed.moves.push(move);
+    broadcast(feed, { event: 'move', id: move.moveNumber, data: move });
+
+    if (captured) {
+      const capture = { moveNumber: move.moveNumber, captor: move.player, piece: captured };
+      feed.captures.push(capture);
+      broadcast(feed, { event: 'capture', data: capture });
+    }
+  }
+}
+
+function applyActions(feed: GameFeed, actions: GameAction[]) {
+  for (const action of actions) {
+    if (action.actionNumber !== feed.actions.length + 1) {
+      resetFeed(feed, 'Action history changed');
+      return;
+    }
+
+    feed.actions.push(action);
+    broadcast(feed, { event: 'action', data: action });
+  }
+}
+
+async function pollFeed(feed: GameFeed) {
+  try {
+    const store = getMoveStore(feed.chainId);
+    const version = await store.getVersion(feed.gameId);
+
+    if (version !== feed.version) {
+      const [storedCount, newMoves, newActions] = await Promise.all([
+        store.count(feed.gameId),
+        store.listSince(feed.gameId, feed.moves.length),
+        store.listActionsSince(feed.gameId, feed.actions.length)
+      ]);
+
+      // A shorter list than we have seen means the moves were cleared
+      if (storedCount < feed.moves.length) {
+        resetFeed(feed, 'Moves cleared');
+        feed.version = -1; // Read the logs again from the start on the next tick
+      } else {
+        applyMoves(feed, newMoves);
+        applyActions(feed, newActions);
+        feed.version = version;
+      }
+    }
+
+    if (Date.now() - feed.lastStatusCheck >= STATUS_POLL_INTERVAL) {
+      feed.lastStatusCheck = Date.now();
+
+      const status = serializeEscrowGame(await readEscrowGame(feed.gameId, feed.chainId));
+      if (JSON.stringify(status) !== JSON.stringify(feed.status)) {
+        feed.status = status;
+        broadcast(feed, { event: 'status', data: status });
+      }
+    }
+  } catch (error) {
+    console.error(`[Game Stream ${feed.gameId}] Poll failed:`, error);
+  } finally {
+    if (feed.subscribers.size > 0) {
+      feed.timer = setTimeout(() => pollFeed(feed), VERSION_POLL_INTERVAL);
+    } else {
+      feed.timer = null;
+      feed.polling = false;
+    }
+  }
+}
+
+/**
+ * Subscribe to moves, captures, game actions and status changes for a game on a network
+ * Moves after the `since` cursor, actions after `actionsSince` and the latest
+ * known status are replayed first
+ * Returns an unsubscribe function
+ */
+export function subscribeToGame(gameId: number, chainId: number, since: number, actionsSince: number, subscriber: Subscriber): () => void {
+  const key = `${chainId}:${gameId}`;
+  let feed = feeds.get(key);
+  if (!feed) {
+    feed = {
+      gameId,
+      chainId,
+      moves: [],
+      captures: [],
+      actions: [],
+      position: new Chess(),
+      status: null,
+      subscribers: new Set(),
+      timer: null,
+      polling: false,
+      version: -1,
+      lastStatusCheck: 0
+    };
+    feeds.set(key, feed);
+  }
+
+  // Catch the new subscriber up from its resume cursor
+  for (const move of feed.moves.slice(since)) {
+    subscriber({ event: 'move', id: move.moveNumber, data: move });
+    const capture = feed.captures.find(c => c.moveNumber === move.moveNumber);
+    if (capture) {
+      subscriber({ event: 'capture', data: capture });
+    }
+  }
+  for (const action of feed.actions.slice(actionsSince)) {
+    subscriber({ event: 'action', data: action });
+  }
+  if (feed.status) {
+    subscriber({ event: 'status', data: feed.status });
+  }
+
+  feed.subscribers.add(subscriber);
+  if (!feed.polling) {
+    feed.polling = true;
+    pollFeed(feed);
+  }
+
+  const activeFeed = feed;
+  return () => {
+    activeFeed.subscribers.delete(subscriber);
+    if (activeFeed.subscribers.size === 0) {
+      if (activeFeed.timer) {
+        clearTimeout(activeFeed.timer);
+        activeFeed.timer = null;
+      }
+      activeFeed.polling = false;
+      feeds.delete(key);
+    }
+  };
+}
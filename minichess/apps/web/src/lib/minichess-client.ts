@@ -0,0 +1,201 @@
+import { Address, Hex, PublicClient, createPublicClient, encodeFunctionData, http } from 'viem';
+import { miniChessEscrowPaymasterAbi } from '@/contracts/MiniChessEscrowPaymasterAbi';
+import { miniChessCustomPaymasterAbi } from '@/contracts/MiniChessCustomPaymasterAbi';
+import type { SessionKeyGrant } from '@/lib/move-signature';
+import { getContractAddress, getNetwork } from '@/lib/networks';
+
+export { miniChessEscrowPaymasterAbi, miniChessCustomPaymasterAbi };
+
+// Functions below take an optional chainId and default to the network in
+// lib/networks; server routes pass the chainId each request names
+
+/**
+ * Escrow contract on the default network
+ */
+export const MINICHESS_CONTRACT_ADDRESS = getNetwork().contractAddress as Address;
+
+export interface Game {
+  player1: Address; // White
+  player2: Address; // Black
+  player1Balance: bigint;
+  player2Balance: bigint;
+  status: number; // See GAME_STATUS in lib/escrow-game
+  winner: Address; // Zero until the game ends, and for a draw
+  createdAt: bigint;
+  lastMoveAt: bigint;
+}
+
+export interface PlayerStats {
+  gamesPlayed: bigint;
+  gamesWon: bigint;
+  gamesLost: bigint;
+  gamesDrawn: bigint;
+  totalEarned: bigint;
+  totalLost: bigint;
+  winRate: bigint; // Percentage, 0-100
+}
+
+/**
+ * A contract call ready to hand to the bundler
+ */
+export interface ContractCall {
+  target: Address;
+  data: Hex;
+  value: bigint;
+}
+
+const publicClients = new Map<number, PublicClient>();
+
+/**
+ * Shared read client for a network
+ * Has no browser dependencies, so hooks and route handlers can both use it
+ */
+export function getPublicClient(chainId?: number): PublicClient {
+  const { chain } = getNetwork(chainId);
+
+  let client = publicClients.get(chain.id);
+  if (!client) {
+    client = createPublicClient({ chain, transport: http() });
+    publicClients.set(chain.id, client);
+  }
+  return client;
+}
+
+/**
+ * Read client for the default network
+ */
+export const minichessPublicClient = getPublicClient();
+
+const contract = (chainId?: number) => ({
+  address: getContractAddress(chainId),
+  abi: miniChessEscrowPaymasterAbi
+} as const);
+
+export async function getGame(gameId: number | bigint, chainId?: number): Promise<Game> {
+  const [player1, player2, player1Balance, player2Balance, status, winner, createdAt, lastMoveAt] =
+    await getPublicClient(chainId).readContract({
+      ...contract(chainId),
+      functionName: 'getGame',
+      args: [BigInt(gameId)]
+    });
+
+  return { player1, player2, player1Balance, player2Balance, status, winner, createdAt, lastMoveAt };
+}
+
+export async function getPlayerStats(player: Address, chainId?: number): Promise<PlayerStats> {
+  const client = getPublicClient(chainId);
+  const [[gamesPlayed, gamesWon, gamesLost, totalEarned, totalLost, winRate], gamesDrawn] = await Promise.all([
+    client.readContract({
+      ...contract(chainId),
+      functionName: 'getPlayerStats',
+      args: [player]
+    }),
+    // Deployments from before draws have no getPlayerDraws
+    client
+      .readContract({
+        ...contract(chainId),
+        functionName: 'getPlayerDraws',
+        args: [player]
+      })
+      .catch(() => 0n)
+  ]);
+
+  return { gamesPlayed, gamesWon, gamesLost, gamesDrawn, totalEarned, totalLost, winRate };
+}
+
+/**
+ * Game IDs a player has taken part in, oldest first
+ */
+export async function getPlayerGameHistory(player: Address, limit = 10, offset = 0, chainId?: number): Promise<readonly bigint[]> {
+  return getPublicClient(chainId).readContract({
+    ...contract(chainId),
+    functionName: 'getPlayerGameHistory',
+    args: [player, BigInt(limit), BigInt(offset)]
+  });
+}
+
+export async function getPlayerGameCount(player: Address, chainId?: number): Promise<bigint> {
+  return getPublicClient(chainId).readContract({
+    ...contract(chainId),
+    functionName: 'getPlayerGameCount',
+    args: [player]
+  });
+}
+
+/**
+ * cUSD each player deposits to create or join a game
+ */
+export async function getEscrowAmount(chainId?: number): Promise<bigint> {
+  return getPublicClient(chainId).readContract({
+    ...contract(chainId),
+    functionName: 'ESCROW_AMOUNT'
+  });
+}
+
+/**
+ * Sponsored operations a user has left in the paymaster's rate limit window
+ * resetTime is zero when the user has no operations in the current window
+ * Returns null when no paymaster is configured for the network
+ */
+export async function getUserRateLimit(user: Address, chainId?: number): Promise<{ remaining: bigint; resetTime: bigint } | null> {
+  const { paymasterAddress } = getNetwork(chainId);
+  if (!paymasterAddress) return null;
+
+  const [remaining, resetTime] = await getPublicClient(chainId).readContract({
+    address: paymasterAddress,
+    abi: miniChessCustomPaymasterAbi,
+    functionName: 'getUserRateLimit',
+    args: [user]
+  });
+  return { remaining, resetTime };
+}
+
+/**
+ * ID of the most recently created game; the next game gets gameCounter + 1
+ */
+export async function getGameCounter(chainId?: number): Promise<bigint> {
+  return getPublicClient(chainId).readContract({
+    ...contract(chainId),
+    functionName: 'gameCounter'
+  });
+}
+
+/**
+ * Encoders for the escrow contract's bundler-sponsored functions on a network
+ */
+export function getMinichessCalls(chainId?: number) {
+  const target = getContractAddress(chainId);
+  const call = (data: Hex): ContractCall => ({ target, data, value: 0n });
+
+  return {
+    createGameWithSession: ({ sessionKey, validUntil }: SessionKeyGrant, signature: Hex, signer: Address) => call(encodeFunctionData({
+      abi: miniChessEscrowPaymasterAbi,
+      functionName: 'createGameWithSession',
+      args: [sessionKey, BigInt(validUntil), signature, signer]
+    })),
+
+    joinGameWithSession: (gameId: number, { sessionKey, validUntil }: SessionKeyGrant, signature: Hex, signer: Address) => call(encodeFunctionData({
+      abi: miniChessEscrowPaymasterAbi,
+      functionName: 'joinGameWithSession',
+      args: [BigInt(gameId), sessionKey, BigInt(validUntil), signature, signer]
+    })),
+
+    capturePiecePaymaster: (gameId: number, moveNumber: number, captor: Address, pieceType: number, arbiterSignature: Hex) => call(encodeFunctionData({
+      abi: miniChessEscrowPaymasterAbi,
+      functionName: 'capturePiecePaymaster',
+      args: [BigInt(gameId), BigInt(moveNumber), captor, pieceType, arbiterSignature]
+    })),
+
+    cancelGame: (gameId: number) => call(encodeFunctionData({
+      abi: miniChessEscrowPaymasterAbi,
+      functionName: 'cancelGame',
+      args: [BigInt(gameId)]
+    })),
+
+    claimTimeout: (gameId: number) => call(encodeFunctionData({
+      abi: miniChessEscrowPaymasterAbi,
+      functionName: 'claimTimeout',
+      args: [BigInt(gameId)]
+    }))
+  };
+}
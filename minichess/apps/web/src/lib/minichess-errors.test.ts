@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { BaseError, UserRejectedRequestError, encodeErrorResult } from 'viem';
+import { BundlerError } from '@/lib/bundler-client';
+import { MiniChessError, decodeMiniChessError, isMiniChessErrorCode } from '@/lib/minichess-errors';
+
+const SPENDER = '0x1111111111111111111111111111111111111111';
+
+describe('decodeMiniChessError', () => {
+  it('passes a MiniChessError through unchanged', () => {
+    const error = new MiniChessError('GAME_NOT_ACTIVE');
+
+    expect(decodeMiniChessError(error)).toBe(error);
+  });
+
+  it('matches contract revert strings anywhere in the message', () => {
+    const decoded = decodeMiniChessError(new Error('Bundler error: Operation 0 reverted: Game not active'));
+
+    expect(decoded.code).toBe('GAME_NOT_ACTIVE');
+    expect(decoded.detail).toBe('Bundler error: Operation 0 reverted: Game not active');
+    expect(decoded.remedy).toBeTruthy();
+  });
+
+  it('prefers the more specific revert string', () => {
+    expect(decodeMiniChessError(new Error('Invalid session signature')).code).toBe('INVALID_SIGNATURE');
+    expect(decodeMiniChessError(new Error('Operation 0 reverted: Invalid arbiter signature')).code).toBe('INVALID_RESULT');
+    expect(decodeMiniChessError(new Error('ERC20: transfer amount exceeds allowance')).code).toBe('INSUFFICIENT_ALLOWANCE');
+  });
+
+  it('decodes custom error data relayed by the bundler', () => {
+    const data = encodeErrorResult({
+      abi: [{
+        type: 'error',
+        name: 'ERC20InsufficientBalance',
+        inputs: [
+          { name: 'sender', type: 'address' },
+          { name: 'balance', type: 'uint256' },
+          { name: 'needed', type: 'uint256' }
+        ]
+      }],
+      errorName: 'ERC20InsufficientBalance',
+      args: [SPENDER, 0n, 10n ** 18n]
+    });
+
+    expect(decodeMiniChessError(new Error(`Bundler error: Operation 1 reverted: ${data}`)).code).toBe('INSUFFICIENT_FUNDS');
+  });
+
+  it('decodes Error(string) revert data', () => {
+    const data = encodeErrorResult({
+      abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+      errorName: 'Error',
+      args: ['Not a player']
+    });
+
+    expect(decodeMiniChessError(new Error(`Operation 0 reverted: ${data}`)).code).toBe('NOT_A_PLAYER');
+  });
+
+  it('recognises wallet rejections', () => {
+    const viemRejection = new BaseError('Request failed', { cause: new UserRejectedRequestError(new Error('User denied')) });
+
+    expect(decodeMiniChessError(viemRejection).code).toBe('USER_REJECTED');
+    expect(decodeMiniChessError({ code: 4001, message: 'User rejected the request.' }).code).toBe('USER_REJECTED');
+  });
+
+  it('maps bundler failures without a revert reason', () => {
+    expect(decodeMiniChessError(new BundlerError('Bundler error: Too many requests', 429)).code).toBe('RATE_LIMITED');
+    expect(decodeMiniChessError(new BundlerError('Bundler unreachable: fetch failed', undefined, true)).code).toBe('BUNDLER_UNAVAILABLE');
+  });
+
+  it('falls back to a generic revert, then to unknown', () => {
+    expect(decodeMiniChessError(new Error('execution reverted')).code).toBe('TRANSACTION_REVERTED');
+    expect(decodeMiniChessError('something odd').code).toBe('UNKNOWN');
+  });
+});
+
+describe('isMiniChessErrorCode', () => {
+  it('accepts only known codes', () => {
+    expect(isMiniChessErrorCode('INVALID_RESULT')).toBe(true);
+    expect(isMiniChessErrorCode('GAME_NOT_OVER')).toBe(false);
+    expect(isMiniChessErrorCode(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,286 @@
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  Hex,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  erc20Abi
+} from 'viem';
+import { miniChessEscrowPaymasterAbi } from '@/contracts/MiniChessEscrowPaymasterAbi';
+import { BundlerError } from '@/lib/bundler-client';
+
+export type MiniChessErrorCode =
+  | 'INSUFFICIENT_BALANCE'
+  | 'INSUFFICIENT_FUNDS'
+  | 'INSUFFICIENT_ALLOWANCE'
+  | 'ESCROW_TRANSFER_FAILED'
+  | 'GAME_NOT_ACTIVE'
+  | 'GAME_NOT_AVAILABLE'
+  | 'CANNOT_JOIN_OWN_GAME'
+  | 'NOT_AUTHORIZED'
+  | 'NOT_A_PLAYER'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_RESULT'
+  | 'CANCEL_TOO_EARLY'
+  | 'CANNOT_CANCEL'
+  | 'GAME_NOT_TIMED_OUT'
+  | 'ALREADY_PROCESSED'
+  | 'PAYOUT_FAILED'
+  | 'USER_REJECTED'
+  | 'WRONG_NETWORK'
+  | 'BUNDLER_UNAVAILABLE'
+  | 'RATE_LIMITED'
+  | 'TRANSACTION_REVERTED'
+  | 'UNKNOWN';
+
+interface ErrorCopy {
+  message: string;
+  remedy?: string;
+}
+
+const ERROR_COPY: Record<MiniChessErrorCode, ErrorCopy> = {
+  INSUFFICIENT_BALANCE: {
+    message: 'The game balance is too low to pay for this capture.',
+    remedy: 'The capture was not paid out. Keep playing; the final settlement uses the balances on-chain.'
+  },
+  INSUFFICIENT_FUNDS: {
+    message: "You don't have enough cUSD for the game's escrow.",
+    remedy: 'Top up your wallet with cUSD and try again.'
+  },
+  INSUFFICIENT_ALLOWANCE: {
+    message: "The escrow isn't allowed to spend your cUSD.",
+    remedy: 'Try again and approve the escrow spend when asked.'
+  },
+  ESCROW_TRANSFER_FAILED: {
+    message: 'Your cUSD could not be moved into escrow.',
+    remedy: 'Check that you hold enough cUSD for the escrow and that it is approved to spend it.'
+  },
+  GAME_NOT_ACTIVE: {
+    message: 'This game is not active.',
+    remedy: 'It may have ended or not started yet. Refresh to see its current state.'
+  },
+  GAME_NOT_AVAILABLE: {
+    message: "This game can't be joined.",
+    remedy: 'It already has two players or was cancelled. Check the game ID or create a new game.'
+  },
+  CANNOT_JOIN_OWN_GAME: {
+    message: "You can't join your own game.",
+    remedy: 'Share the game ID with an opponent, or join from another wallet.'
+  },
+  NOT_AUTHORIZED: {
+    message: "This wallet isn't authorized for this game.",
+    remedy: 'Join the game with this wallet first.'
+  },
+  NOT_A_PLAYER: {
+    message: "You're not a player in this game.",
+    remedy: 'Switch to the wallet that created or joined the game.'
+  },
+  INVALID_SIGNATURE: {
+    message: "Your signature didn't match the connected wallet.",
+    remedy: 'Renew your session and try again.'
+  },
+  INVALID_RESULT: {
+    message: "The contract didn't accept this game result.",
+    remedy: 'Refresh the game; it may already have been settled.'
+  },
+  CANCEL_TOO_EARLY: {
+    message: 'Games can only be cancelled 5 minutes after they are created.',
+    remedy: 'Wait a little longer and try again.'
+  },
+  CANNOT_CANCEL: {
+    message: 'Only a game still waiting for an opponent can be cancelled.',
+    remedy: 'Once an opponent joins, the game has to be played or settled.'
+  },
+  GAME_NOT_TIMED_OUT: {
+    message: "Your opponent hasn't run out of time yet.",
+    remedy: 'Wait for the timeout countdown to finish.'
+  },
+  ALREADY_PROCESSED: {
+    message: 'This capture has already been paid out.'
+  },
+  PAYOUT_FAILED: {
+    message: 'The escrow could not pay out the game.',
+    remedy: 'Try again in a moment. Your funds stay in escrow until it succeeds.'
+  },
+  USER_REJECTED: {
+    message: 'You cancelled the request in your wallet.'
+  },
+  WRONG_NETWORK: {
+    message: 'Your wallet is on the wrong network.',
+    remedy: 'Switch networks and try again.'
+  },
+  BUNDLER_UNAVAILABLE: {
+    message: "The transaction relay didn't respond.",
+    remedy: 'Check your connection and try again; a repeated request will not be sent twice.'
+  },
+  RATE_LIMITED: {
+    message: "You've hit the gas sponsorship limit.",
+    remedy: 'Wait a few minutes before sending more transactions.'
+  },
+  TRANSACTION_REVERTED: {
+    message: 'The transaction was rejected by the contract.',
+    remedy: 'Refresh and try again.'
+  },
+  UNKNOWN: {
+    message: 'Something went wrong.',
+    remedy: 'Please try again.'
+  }
+};
+
+// Revert strings from the escrow contract and cUSD, matched anywhere in an error message
+// More specific strings come first
+const REVERT_REASONS: [string, MiniChessErrorCode][] = [
+  ['Insufficient balance', 'INSUFFICIENT_BALANCE'],
+  ['transfer amount exceeds allowance', 'INSUFFICIENT_ALLOWANCE'],
+  ['insufficient allowance', 'INSUFFICIENT_ALLOWANCE'],
+  ['transfer amount exceeds balance', 'INSUFFICIENT_FUNDS'],
+  ['Escrow transfer failed', 'ESCROW_TRANSFER_FAILED'],
+  ['Game not active', 'GAME_NOT_ACTIVE'],
+  ['Game not available', 'GAME_NOT_AVAILABLE'],
+  ['Game already has player 2', 'GAME_NOT_AVAILABLE'],
+  ['Cannot join own game', 'CANNOT_JOIN_OWN_GAME'],
+  ['Not authorized', 'NOT_AUTHORIZED'],
+  ['Not a player', 'NOT_A_PLAYER'],
+  ['Invalid captor', 'NOT_A_PLAYER'],
+  ['Only creator can cancel', 'NOT_A_PLAYER'],
+  ['Invalid session signature', 'INVALID_SIGNATURE'],
+  ['Invalid arbiter signature', 'INVALID_RESULT'],
+  ['Invalid signature', 'INVALID_SIGNATURE'],
+  ['Invalid winner', 'INVALID_RESULT'],
+  ['Wait 5 minutes', 'CANCEL_TOO_EARLY'],
+  ['Can only cancel waiting', 'CANNOT_CANCEL'],
+  ['Game not timed out', 'GAME_NOT_TIMED_OUT'],
+  ['Already processed', 'ALREADY_PROCESSED'],
+  ['payout failed', 'PAYOUT_FAILED'],
+  ['Payout failed', 'PAYOUT_FAILED'],
+  ['Refund failed', 'PAYOUT_FAILED'],
+  ['Rate limit', 'RATE_LIMITED'],
+  ['rate limit', 'RATE_LIMITED']
+];
+
+// Custom errors from the escrow ABI (OpenZeppelin) and ERC20
+const CUSTOM_ERRORS: Record<string, MiniChessErrorCode> = {
+  ECDSAInvalidSignature: 'INVALID_SIGNATURE',
+  ECDSAInvalidSignatureLength: 'INVALID_SIGNATURE',
+  ECDSAInvalidSignatureS: 'INVALID_SIGNATURE',
+  ERC20InsufficientAllowance: 'INSUFFICIENT_ALLOWANCE',
+  ERC20InsufficientBalance: 'INSUFFICIENT_FUNDS'
+};
+
+const ERC20_ERRORS_ABI = [
+  {
+    type: 'error',
+    name: 'ERC20InsufficientAllowance',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'allowance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' }
+    ]
+  },
+  {
+    type: 'error',
+    name: 'ERC20InsufficientBalance',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      { name: 'balance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' }
+    ]
+  }
+] as const;
+
+/**
+ * A failure decoded into a code with user-facing copy
+ * detail keeps the original message and original the thrown value, for logs
+ */
+export class MiniChessError extends Error {
+  readonly remedy?: string;
+
+  constructor(readonly code: MiniChessErrorCode, readonly detail?: string, readonly original?: unknown) {
+    super(ERROR_COPY[code].message);
+    this.name = 'MiniChessError';
+    this.remedy = ERROR_COPY[code].remedy;
+  }
+}
+
+/**
+ * Whether a code sent by an API route is one of ours
+ */
+export function isMiniChessErrorCode(code: unknown): code is MiniChessErrorCode {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(ERROR_COPY, code);
+}
+
+function codeFromMessage(message: string): MiniChessErrorCode | null {
+  for (const [reason, code] of REVERT_REASONS) {
+    if (message.includes(reason)) return code;
+  }
+  for (const [name, code] of Object.entries(CUSTOM_ERRORS)) {
+    if (message.includes(name)) return code;
+  }
+  return null;
+}
+
+/**
+ * Name or reason of revert data, decoded against the escrow and ERC20 ABIs
+ */
+function decodeRevertData(data: Hex): string | null {
+  try {
+    const { errorName, args } = decodeErrorResult({
+      abi: [...miniChessEscrowPaymasterAbi, ...erc20Abi, ...ERC20_ERRORS_ABI],
+      data
+    });
+    // viem also decodes Solidity's built-in Error(string), which the ABI types leave out
+    return (errorName as string) === 'Error' && typeof args?.[0] === 'string' ? args[0] : errorName;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Code for the first decodable revert data in a message, e.g. one relayed by the bundler
+ */
+function codeFromRevertData(message: string): MiniChessErrorCode | null {
+  for (const [data] of message.matchAll(/0x[0-9a-fA-F]{8,}/g)) {
+    const reason = decodeRevertData(data as Hex);
+    const code = reason && (CUSTOM_ERRORS[reason] || codeFromMessage(reason));
+    if (code) return code;
+  }
+  return null;
+}
+
+/**
+ * Turn anything thrown by viem, the bundler client or the contract into a MiniChessError
+ */
+export function decodeMiniChessError(error: unknown): MiniChessError {
+  if (error instanceof MiniChessError) return error;
+
+  const detail = error instanceof Error ? error.message : String(error);
+  const decoded = (code: MiniChessErrorCode) => new MiniChessError(code, detail, error);
+
+  if (error instanceof BaseError) {
+    if (error.walk(e => e instanceof UserRejectedRequestError)) return decoded('USER_REJECTED');
+    if (error.walk(e => e instanceof ChainMismatchError)) return decoded('WRONG_NETWORK');
+
+    const reverted = error.walk(e => e instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      const name = reverted.data?.errorName;
+      if (name && CUSTOM_ERRORS[name]) return decoded(CUSTOM_ERRORS[name]);
+      const code = reverted.reason && codeFromMessage(reverted.reason);
+      return decoded(code || 'TRANSACTION_REVERTED');
+    }
+  }
+
+  // Wallets reject with EIP-1193 code 4001
+  if ((error as { code?: number })?.code === 4001) return decoded('USER_REJECTED');
+
+  const code = codeFromMessage(detail) || codeFromRevertData(detail);
+  if (code) return decoded(code);
+
+  if (error instanceof BundlerError) {
+    if (error.status === 429) return decoded('RATE_LIMITED');
+    if (error.retryable) return decoded('BUNDLER_UNAVAILABLE');
+  }
+
+  if (/revert/i.test(detail)) return decoded('TRANSACTION_REVERTED');
+  return decoded('UNKNOWN');
+}
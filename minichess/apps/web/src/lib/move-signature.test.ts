@@ -0,0 +1,94 @@
+import { privateKeyToAccount } from 'viem/accounts';
+import { describe, expect, it } from 'vitest';
+import {
+  SessionKeyAuthorization,
+  buildMoveMessageHash,
+  buildSessionKeyMessageHash,
+  buildSessionMessageHash,
+  recoverMoveSigner,
+  resolveSessionSigner
+} from '@/lib/move-signature';
+
+const PLAYER = privateKeyToAccount(`0x${'1'.repeat(64)}`);
+const SESSION_KEY = privateKeyToAccount(`0x${'2'.repeat(64)}`);
+const OTHER_KEY = privateKeyToAccount(`0x${'3'.repeat(64)}`);
+const CHAIN_ID = 11142220;
+const GAME_ID = 7;
+const VALID_UNTIL = 1_700_000_000; // unix seconds
+
+const MOVE = { gameId: GAME_ID, moveNumber: 1, from: 'e2', to: 'e4', chainId: CHAIN_ID };
+
+// The player's AUTHORIZE_SESSION signature naming SESSION_KEY
+async function authorize(gameId = GAME_ID): Promise<SessionKeyAuthorization> {
+  const grant = { sessionKey: SESSION_KEY.address, validUntil: VALID_UNTIL };
+  const signature = await PLAYER.signMessage({ message: { raw: buildSessionMessageHash(gameId, grant, CHAIN_ID) } });
+  return { ...grant, kind: 'session', signature };
+}
+
+// The player's AUTHORIZE_SESSION_KEY signature renewing the session with SESSION_KEY
+async function renew(): Promise<SessionKeyAuthorization> {
+  const grant = { sessionKey: SESSION_KEY.address, validUntil: VALID_UNTIL };
+  const signature = await PLAYER.signMessage({ message: { raw: buildSessionKeyMessageHash(GAME_ID, grant, CHAIN_ID) } });
+  return { ...grant, kind: 'renewal', signature };
+}
+
+describe('recoverMoveSigner', () => {
+  it('recovers the account that signed the move', async () => {
+    const signature = await PLAYER.signMessage({ message: { raw: buildMoveMessageHash(MOVE) } });
+
+    expect(await recoverMoveSigner(MOVE, signature)).toBe(PLAYER.address);
+  });
+
+  it('recovers someone else for a different move', async () => {
+    const signature = await PLAYER.signMessage({ message: { raw: buildMoveMessageHash(MOVE) } });
+
+    expect(await recoverMoveSigner({ ...MOVE, to: 'e3' }, signature)).not.toBe(PLAYER.address);
+    expect(await recoverMoveSigner({ ...MOVE, moveNumber: 2 }, signature)).not.toBe(PLAYER.address);
+  });
+});
+
+describe('resolveSessionSigner', () => {
+  const beforeExpiry = (VALID_UNTIL - 60) * 1000;
+
+  it('returns the signer itself without an authorization', async () => {
+    expect(await resolveSessionSigner(PLAYER.address, undefined, GAME_ID, CHAIN_ID)).toBe(PLAYER.address);
+  });
+
+  it('returns the player who authorized the session key', async () => {
+    const authorization = await authorize();
+
+    expect(await resolveSessionSigner(SESSION_KEY.address, authorization, GAME_ID, CHAIN_ID, beforeExpiry)).toBe(PLAYER.address);
+  });
+
+  it('returns the player who renewed the session with a new key', async () => {
+    expect(await resolveSessionSigner(SESSION_KEY.address, await renew(), GAME_ID, CHAIN_ID, beforeExpiry)).toBe(PLAYER.address);
+  });
+
+  it('checks the signature against the message its kind names', async () => {
+    const renewal = await renew();
+    expect(await resolveSessionSigner(SESSION_KEY.address, { ...renewal, kind: 'session' }, GAME_ID, CHAIN_ID, beforeExpiry))
+      .not.toBe(PLAYER.address);
+
+    const session = await authorize();
+    expect(await resolveSessionSigner(SESSION_KEY.address, { ...session, kind: 'renewal' }, GAME_ID, CHAIN_ID, beforeExpiry))
+      .not.toBe(PLAYER.address);
+  });
+
+  it('rejects a signer other than the authorized session key', async () => {
+    await expect(resolveSessionSigner(OTHER_KEY.address, await authorize(), GAME_ID, CHAIN_ID, beforeExpiry))
+      .rejects.toThrow('Signed by a different session key');
+  });
+
+  it('rejects an expired session key', async () => {
+    await expect(resolveSessionSigner(SESSION_KEY.address, await authorize(), GAME_ID, CHAIN_ID, VALID_UNTIL * 1000))
+      .rejects.toThrow('Session key has expired');
+  });
+
+  it('does not resolve to the player for an authorization from another game or a changed expiry', async () => {
+    const authorization = await authorize(GAME_ID + 1);
+    expect(await resolveSessionSigner(SESSION_KEY.address, authorization, GAME_ID, CHAIN_ID, beforeExpiry)).not.toBe(PLAYER.address);
+
+    const extended = { ...await authorize(), validUntil: VALID_UNTIL + 3600 };
+    expect(await resolveSessionSigner(SESSION_KEY.address, extended, GAME_ID, CHAIN_ID, beforeExpiry)).not.toBe(PLAYER.address);
+  });
+});
@@ -0,0 +1,235 @@
+import { encodePacked, isAddress, isHex, keccak256, recoverMessageAddress, zeroAddress } from 'viem';
+
+export interface SessionKeyAuthorization {
+  sessionKey: `0x${string}`; // Address of the per-game key, see lib/session-key
+  validUntil: number; // Unix seconds
+  kind: 'session' | 'renewal'; // Which message the signature is over
+  signature: `0x${string}`; // Player's AUTHORIZE_SESSION, or AUTHORIZE_SESSION_KEY for a renewal
+}
+
+export type SessionKeyGrant = Pick<SessionKeyAuthorization, 'sessionKey' | 'validUntil'>;
+
+// Signed when the browser cannot keep a session key; moves are then signed by the wallet
+export const NO_SESSION_KEY: SessionKeyGrant = { sessionKey: zeroAddress, validUntil: 0 };
+
+/**
+ * Build the AUTHORIZE_SESSION message hash a player signs to create or join a game
+ * createGameWithSession and joinGameWithSession check it on-chain, and the
+ * server accepts the session key it names for that player's moves and actions
+ * until validUntil, so one signature covers both
+ */
+export function buildSessionMessageHash(
+  gameId: number,
+  { sessionKey, validUntil }: SessionKeyGrant,
+  chainId: number
+): `0x${string}` {
+  const packedMessage = encodePacked(
+    ['string', 'uint256', 'address', 'uint256', 'uint256'],
+    ['AUTHORIZE_SESSION', BigInt(gameId), sessionKey, BigInt(validUntil), BigInt(chainId)]
+  );
+
+  return keccak256(packedMessage);
+}
+
+export interface MoveSignaturePayload {
+  gameId: number;
+  moveNumber: number;
+  from: string;
+  to: string;
+  promotion?: string;
+  chainId: number;
+}
+
+/**
+ * Build the SUBMIT_MOVE message hash
+ * Packed the same way as the AUTHORIZE_SESSION and CAPTURE_PIECE messages
+ * and signed as a raw EIP-191 personal message
+ */
+export function buildMoveMessageHash({ gameId, moveNumber, from, to, promotion, chainId }: MoveSignaturePayload): `0x${string}` {
+  const packedMessage = encodePacked(
+    ['string', 'uint256', 'uint256', 'string', 'string', 'string', 'uint256'],
+    ['SUBMIT_MOVE', BigInt(gameId), BigInt(moveNumber), from, to, promotion || '', BigInt(chainId)]
+  );
+
+  return keccak256(packedMessage);
+}
+
+/**
+ * Recover the address that signed a move
+ */
+export async function recoverMoveSigner(
+  payload: MoveSignaturePayload,
+  signature: `0x${string}`
+): Promise<string> {
+  return recoverMessageAddress({
+    message: { raw: buildMoveMessageHash(payload) },
+    signature
+  });
+}
+
+export interface CaptureSignaturePayload {
+  gameId: number;
+  moveNumber: number;
+  captor: string;
+  pieceType: number;
+  chainId: number;
+}
+
+/**
+ * Build the CAPTURE_PIECE message hash checked by capturePiecePaymaster
+ */
+export function buildCaptureMessageHash({ gameId, moveNumber, captor, pieceType, chainId }: CaptureSignaturePayload): `0x${string}` {
+  const packedMessage = encodePacked(
+    ['string', 'uint256', 'uint256', 'address', 'uint256', 'uint256'],
+    ['CAPTURE_PIECE', BigInt(gameId), BigInt(moveNumber), captor as `0x${string}`, BigInt(pieceType), BigInt(chainId)]
+  );
+
+  return keccak256(packedMessage);
+}
+
+/**
+ * Build the END_GAME message hash the arbiter signs for endGame
+ */
+export function buildEndGameMessageHash(gameId: number, winner: string, chainId: number): `0x${string}` {
+  const packedMessage = encodePacked(
+    ['string', 'uint256', 'address', 'uint256'],
+    ['END_GAME', BigInt(gameId), winner as `0x${string}`, BigInt(chainId)]
+  );
+
+  return keccak256(packedMessage);
+}
+
+/**
+ * Build the END_GAME_DRAW message hash the arbiter signs for endGameDraw
+ */
+export function buildDrawMessageHash(gameId: number, chainId: number): `0x${string}` {
+  const packedMessage = encodePacked(
+    ['string', 'uint256', 'uint256'],
+    ['END_GAME_DRAW', BigInt(gameId), BigInt(chainId)]
+  );
+
+  return keccak256(packedMessage);
+}
+
+/**
+ * Build the CLEAR_MOVES message hash a player signs to delete a finished game's moves
+ * issuedAt (unix seconds) limits how long the signature can be used
+ */
+export function buildClearMovesMessageHash(gameId: number, issuedAt: number, chainId: number): `0x${string}` {
+  const packedMessage = encodePacked(
+    ['string', 'uint256', 'uint256', 'uint256'],
+    ['CLEAR_MOVES', BigInt(gameId), BigInt(issuedAt), BigInt(chainId)]
+  );
+
+  return keccak256(packedMessage);
+}
+
+/**
+ * Recover the address that signed a CLEAR_MOVES request
+ */
+export async function recoverClearMovesSigner(
+  gameId: number,
+  issuedAt: number,
+  chainId: number,
+  signature: `0x${string}`
+): Promise<string> {
+  return recoverMessageAddress({
+    message: { raw: buildClearMovesMessageHash(gameId, issuedAt, chainId) },
+    signature
+  });
+}
+
+export interface GameActionSignaturePayload {
+  gameId: number;
+  action: string;
+  actionNumber: number;
+  chainId: number;
+}
+
+/**
+ * Build the GAME_ACTION message hash for resignations and draw offers
+ * The action number ties the signature to one slot in the action log
+ */
+export function buildGameActionMessageHash({ gameId, action, actionNumber, chainId }: GameActionSignaturePayload): `0x${string}` {
+  const packedMessage = encodePacked(
+    ['string', 'uint256', 'string', 'uint256', 'uint256'],
+    ['GAME_ACTION', BigInt(gameId), action, BigInt(actionNumber), BigInt(chainId)]
+  );
+
+  return keccak256(packedMessage);
+}
+
+/**
+ * Recover the address that signed a game action
+ */
+export async function recoverGameActionSigner(
+  payload: GameActionSignaturePayload,
+  signature: `0x${string}`
+): Promise<string> {
+  return recoverMessageAddress({
+    message: { raw: buildGameActionMessageHash(payload) },
+    signature
+  });
+}
+
+/**
+ * Whether a request body field has the shape of a SessionKeyAuthorization
+ */
+export function isSessionKeyAuthorization(value: unknown): value is SessionKeyAuthorization {
+  if (typeof value !== 'object' || value === null) return false;
+  const { sessionKey, validUntil, kind, signature } = value as Record<string, unknown>;
+  return typeof sessionKey === 'string' && isAddress(sessionKey) &&
+    Number.isInteger(validUntil) &&
+    (kind === 'session' || kind === 'renewal') &&
+    typeof signature === 'string' && isHex(signature);
+}
+
+/**
+ * Build the AUTHORIZE_SESSION_KEY message hash a player signs to renew a session
+ * It names a new key for a game the player is already in, so unlike
+ * AUTHORIZE_SESSION the contract never accepts it to create or join a game
+ */
+export function buildSessionKeyMessageHash(
+  gameId: number,
+  { sessionKey, validUntil }: SessionKeyGrant,
+  chainId: number
+): `0x${string}` {
+  const packedMessage = encodePacked(
+    ['string', 'uint256', 'address', 'uint256', 'uint256'],
+    ['AUTHORIZE_SESSION_KEY', BigInt(gameId), sessionKey, BigInt(validUntil), BigInt(chainId)]
+  );
+
+  return keccak256(packedMessage);
+}
+
+/**
+ * Player behind a recovered move or action signer
+ * Without an authorization that is the signer itself. With one, the signer
+ * must be the unexpired session key it names, and the player is whoever
+ * signed the authorization. Throws if the authorization does not hold
+ */
+export async function resolveSessionSigner(
+  signer: string,
+  authorization: SessionKeyAuthorization | undefined,
+  gameId: number,
+  chainId: number,
+  now = Date.now()
+): Promise<string> {
+  if (!authorization) return signer;
+
+  if (signer.toLowerCase() !== authorization.sessionKey.toLowerCase()) {
+    throw new Error('Signed by a different session key');
+  }
+  if (now >= authorization.validUntil * 1000) {
+    throw new Error('Session key has expired');
+  }
+
+  return recoverMessageAddress({
+    message: {
+      raw: authorization.kind === 'renewal'
+        ? buildSessionKeyMessageHash(gameId, authorization, chainId)
+        : buildSessionMessageHash(gameId, authorization, chainId)
+    },
+    signature: authorization.signature
+  });
+}
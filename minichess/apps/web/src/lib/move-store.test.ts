@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameMove } from '@/lib/game-moves';
+import { ChainMoveStore, MemoryMoveStore, UpstashMoveStore, createMoveStore } from '@/lib/move-store';
+
+const move = (moveNumber: number): GameMove => ({
+  from: 'e2',
+  to: 'e4',
+  player: '0x1111111111111111111111111111111111111111',
+  timestamp: moveNumber,
+  moveNumber
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createMoveStore', () => {
+  const KV = { KV_REST_API_URL: 'https://kv.test', KV_REST_API_TOKEN: 'token' };
+
+  it('uses Upstash when credentials are configured', () => {
+    expect(createMoveStore({ NODE_ENV: 'production', ...KV })).toBeInstanceOf(UpstashMoveStore);
+    expect(createMoveStore({ NODE_ENV: 'development', UPSTASH_REDIS_REST_URL: 'https://kv.test', UPSTASH_REDIS_REST_TOKEN: 'token' }))
+      .toBeInstanceOf(UpstashMoveStore);
+  });
+
+  it('uses memory only when asked for, or under test', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    expect(createMoveStore({ NODE_ENV: 'development', MOVE_STORE: 'memory' })).toBeInstanceOf(MemoryMoveStore);
+    expect(createMoveStore({ NODE_ENV: 'test' })).toBeInstanceOf(MemoryMoveStore);
+  });
+
+  it('throws without credentials instead of falling back to memory', () => {
+    expect(() => createMoveStore({ NODE_ENV: 'development' })).toThrow('set MOVE_STORE=memory');
+    expect(() => createMoveStore({ NODE_ENV: 'production' })).toThrow('Move store requires');
+  });
+
+  it('refuses the memory store in production', () => {
+    expect(() => createMoveStore({ NODE_ENV: 'production', MOVE_STORE: 'memory' })).toThrow('not allowed in production');
+  });
+
+  it('rejects an unknown backend', () => {
+    expect(() => createMoveStore({ MOVE_STORE: 'sqlite', ...KV })).toThrow('Unknown MOVE_STORE backend: sqlite');
+  });
+});
+
+describe('MemoryMoveStore', () => {
+  it('appends only at the expected count', async () => {
+    const store = new MemoryMoveStore();
+
+    expect(await store.append(1, 0, move(1))).toEqual({ appended: true, count: 1 });
+    expect(await store.append(1, 0, move(1))).toEqual({ appended: false, count: 1 });
+    expect(await store.listSince(1, 1)).toEqual([]);
+  });
+
+  it('bumps the version on every change to the logs', async () => {
+    const store = new MemoryMoveStore();
+
+    await store.append(1, 0, move(1));
+    await store.appendAction(1, 0, { action: 'resign', player: move(1).player, actionNumber: 1, moveNumber: 1, timestamp: 1 });
+    await store.setMetadata(1, { settled: true });
+    expect(await store.getVersion(1)).toBe(2);
+
+    await store.clear(1);
+    expect(await store.getVersion(1)).toBe(3);
+    expect(await store.getVersion(2)).toBe(0);
+  });
+
+  it('keeps metadata and the audit log when clearing', async () => {
+    const store = new MemoryMoveStore();
+    await store.append(1, 0, move(1));
+    await store.setMetadata(1, { settlementTxHash: '0xabc' });
+    await store.appendAuditLog(1, { action: 'clear_moves', actor: 'admin', timestamp: 1 });
+
+    await store.clear(1);
+
+    expect(await store.count(1)).toBe(0);
+    expect(await store.getMetadata(1)).toEqual({ settlementTxHash: '0xabc' });
+    expect(await store.listAuditLog(1)).toHaveLength(1);
+  });
+
+  it('lets a capture be claimed again only after it is released', async () => {
+    const store = new MemoryMoveStore();
+
+    expect(await store.claimCapture(1, 3, 60)).toBe(true);
+    expect(await store.claimCapture(1, 3, 60)).toBe(false);
+    await store.releaseCapture(1, 3);
+    expect(await store.claimCapture(1, 3, 60)).toBe(true);
+    await store.markCapturePaid(1, 3);
+    await store.releaseCapture(1, 4);
+    expect(await store.claimCapture(1, 3, 60)).toBe(false);
+  });
+});
+
+describe('ChainMoveStore', () => {
+  it('keeps the same game id on another network apart', async () => {
+    const store = new MemoryMoveStore();
+    const otherChain = new ChainMoveStore(store, 31337);
+
+    await store.append(1, 0, move(1));
+    await otherChain.setMetadata(1, { joinedAt: '5' });
+
+    expect(await otherChain.count(1)).toBe(0);
+    expect(await otherChain.append(1, 0, move(1))).toEqual({ appended: true, count: 1 });
+    expect(await store.getMetadata(1)).toEqual({});
+    expect(await store.getMetadata('31337:1')).toEqual({ joinedAt: '5' });
+  });
+});
@@ -0,0 +1,407 @@
+import { Redis } from '@upstash/redis';
+import type { GameMove } from '@/lib/game-moves';
+import type { GameAction } from '@/lib/game-actions';
+import { DEFAULT_CHAIN_ID } from '@/lib/networks';
+
+export type GameMetadata = Record<string, unknown>;
+
+export interface AuditLogEntry {
+  action: string;
+  actor: string;
+  timestamp: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Storage for the per-game move log and metadata
+ */
+export interface MoveStore {
+  /** Append a move only if the log still holds expectedCount moves */
+  append(gameId: string | number, expectedCount: number, move: GameMove): Promise<{ appended: boolean; count: number }>;
+  /** All moves in order */
+  list(gameId: string | number): Promise<GameMove[]>;
+  /** Moves after the first `since` moves */
+  listSince(gameId: string | number, since: number): Promise<GameMove[]>;
+  count(gameId: string | number): Promise<number>;
+  /** Counter bumped by every change to the move or action log, for cheap change polling */
+  getVersion(gameId: string | number): Promise<number>;
+  /** Append a resign/draw action only if the log still holds expectedCount actions */
+  appendAction(gameId: string | number, expectedCount: number, action: GameAction): Promise<{ appended: boolean; count: number }>;
+  listActions(gameId: string | number): Promise<GameAction[]>;
+  /** Actions after the first `since` actions */
+  listActionsSince(gameId: string | number, since: number): Promise<GameAction[]>;
+  /** Take the relay lock for a capture move; false if another relay holds it or it has been paid */
+  claimCapture(gameId: string | number, moveNumber: number, ttlSeconds: number): Promise<boolean>;
+  /** Drop the relay lock after a failed payout so the capture can be retried */
+  releaseCapture(gameId: string | number, moveNumber: number): Promise<void>;
+  /** Turn the relay lock into a permanent marker so the capture is never claimed again */
+  markCapturePaid(gameId: string | number, moveNumber: number, txHash: string): Promise<void>;
+  /** Record the capturePiecePaymaster transaction on a stored move */
+  setCaptureTxHash(gameId: string | number, moveNumber: number, txHash: string): Promise<void>;
+  /** Remove the move log and action log; metadata (settlement, capture scan) is kept */
+  clear(gameId: string | number): Promise<void>;
+  getMetadata(gameId: string | number): Promise<GameMetadata>;
+  /** Merge fields into the game's metadata */
+  setMetadata(gameId: string | number, metadata: GameMetadata): Promise<void>;
+  /** Record an entry in the game's audit log, which survives clear() */
+  appendAuditLog(gameId: string | number, entry: AuditLogEntry): Promise<void>;
+  listAuditLog(gameId: string | number): Promise<AuditLogEntry[]>;
+}
+
+const movesKey = (gameId: string | number) => `game:${gameId}:moves`;
+const metaKey = (gameId: string | number) => `game:${gameId}:meta`;
+const auditKey = (gameId: string | number) => `game:${gameId}:audit`;
+const actionsKey = (gameId: string | number) => `game:${gameId}:actions`;
+const versionKey = (gameId: string | number) => `game:${gameId}:version`;
+const captureLockKey = (gameId: string | number, moveNumber: number) => `game:${gameId}:capture:${moveNumber}`;
+
+// Appends ARGV[2] only if the list still holds ARGV[1] entries, and bumps
+// the game's version (KEYS[2]) in the same step.
+// Returns { appended (1|0), list length }
+// Used for both the move log and the action log
+const APPEND_MOVE_SCRIPT = `
+local count = redis.call('LLEN', KEYS[1])
+if count ~= tonumber(ARGV[1]) then
+  return {0, count}
+end
+local length = redis.call('RPUSH', KEYS[1], ARGV[2])
+redis.call('INCR', KEYS[2])
+return {1, length}
+`;
+
+/**
+ * Upstash Redis (or Vercel KV) backed store
+ * Appends run as a Lua script so racing submissions cannot both take the same move number
+ */
+export class UpstashMoveStore implements MoveStore {
+  private appendScript;
+
+  constructor(private redis: Redis) {
+    this.appendScript = redis.createScript<[number, number]>(APPEND_MOVE_SCRIPT);
+  }
+
+  async append(gameId: string | number, expectedCount: number, move: GameMove) {
+    const [appended, count] = await this.appendScript.exec(
+      [movesKey(gameId), versionKey(gameId)],
+      [expectedCount.toString(), JSON.stringify(move)]
+    );
+    return { appended: appended === 1, count };
+  }
+
+  async list(gameId: string | number) {
+    return await this.redis.lrange<GameMove>(movesKey(gameId), 0, -1) || [];
+  }
+
+  async listSince(gameId: string | number, since: number) {
+    return await this.redis.lrange<GameMove>(movesKey(gameId), since, -1) || [];
+  }
+
+  async count(gameId: string | number) {
+    return this.redis.llen(movesKey(gameId));
+  }
+
+  async getVersion(gameId: string | number) {
+    return Number(await this.redis.get(versionKey(gameId))) || 0;
+  }
+
+  async appendAction(gameId: string | number, expectedCount: number, action: GameAction) {
+    const [appended, count] = await this.appendScript.exec(
+      [actionsKey(gameId), versionKey(gameId)],
+      [expectedCount.toString(), JSON.stringify(action)]
+    );
+    return { appended: appended === 1, count };
+  }
+
+  async listActions(gameId: string | number) {
+    return await this.redis.lrange<GameAction>(actionsKey(gameId), 0, -1) || [];
+  }
+
+  async listActionsSince(gameId: string | number, since: number) {
+    return await this.redis.lrange<GameAction>(actionsKey(gameId), since, -1) || [];
+  }
+
+  async claimCapture(gameId: string | number, moveNumber: number, ttlSeconds: number) {
+    const result = await this.redis.set(captureLockKey(gameId, moveNumber), Date.now(), { nx: true, ex: ttlSeconds });
+    return result === 'OK';
+  }
+
+  async releaseCapture(gameId: string | number, moveNumber: number) {
+    await this.redis.del(captureLockKey(gameId, moveNumber));
+  }
+
+  // No expiry, so claimCapture's NX set fails for good
+  async markCapturePaid(gameId: string | number, moveNumber: number, txHash: string) {
+    await this.redis.set(captureLockKey(gameId, moveNumber), txHash);
+  }
+
+  // Only the relay holding the capture lock writes a move, and the log is
+  // append-only, so the move's index cannot shift under us
+  async setCaptureTxHash(gameId: string | number, moveNumber: number, txHash: string) {
+    const move = await this.redis.lindex(movesKey(gameId), moveNumber - 1) as GameMove | null;
+    if (!move) throw new Error(`Move ${moveNumber} not found`);
+    await this.redis.lset(movesKey(gameId), moveNumber - 1, JSON.stringify({ ...move, captureTxHash: txHash }));
+  }
+
+  // The version outlives the logs so streams notice the clear
+  async clear(gameId: string | number) {
+    await this.redis.del(movesKey(gameId), actionsKey(gameId));
+    await this.redis.incr(versionKey(gameId));
+  }
+
+  async getMetadata(gameId: string | number) {
+    return await this.redis.hgetall<GameMetadata>(metaKey(gameId)) || {};
+  }
+
+  async setMetadata(gameId: string | number, metadata: GameMetadata) {
+    await this.redis.hset(metaKey(gameId), metadata);
+  }
+
+  async appendAuditLog(gameId: string | number, entry: AuditLogEntry) {
+    await this.redis.rpush(auditKey(gameId), entry);
+  }
+
+  async listAuditLog(gameId: string | number) {
+    return await this.redis.lrange<AuditLogEntry>(auditKey(gameId), 0, -1) || [];
+  }
+}
+
+/**
+ * In-process store for local development and tests
+ * Data lives until the server restarts
+ */
+export class MemoryMoveStore implements MoveStore {
+  private moves = new Map<string, GameMove[]>();
+  private actions = new Map<string, GameAction[]>();
+  private metadata = new Map<string, GameMetadata>();
+  private auditLog = new Map<string, AuditLogEntry[]>();
+  private captureLocks = new Map<string, number>();
+  private versions = new Map<string, number>();
+
+  private bumpVersion(gameId: string | number) {
+    this.versions.set(String(gameId), (this.versions.get(String(gameId)) || 0) + 1);
+  }
+
+  async append(gameId: string | number, expectedCount: number, move: GameMove) {
+    const moves = this.moves.get(String(gameId)) || [];
+    if (moves.length !== expectedCount) {
+      return { appended: false, count: moves.length };
+    }
+    this.moves.set(String(gameId), [...moves, move]);
+    this.bumpVersion(gameId);
+    return { appended: true, count: moves.length + 1 };
+  }
+
+  async list(gameId: string | number) {
+    return [...(this.moves.get(String(gameId)) || [])];
+  }
+
+  async listSince(gameId: string | number, since: number) {
+    return (this.moves.get(String(gameId)) || []).slice(since);
+  }
+
+  async count(gameId: string | number) {
+    return (this.moves.get(String(gameId)) || []).length;
+  }
+
+  async getVersion(gameId: string | number) {
+    return this.versions.get(String(gameId)) || 0;
+  }
+
+  async appendAction(gameId: string | number, expectedCount: number, action: GameAction) {
+    const actions = this.actions.get(String(gameId)) || [];
+    if (actions.length !== expectedCount) {
+      return { appended: false, count: actions.length };
+    }
+    this.actions.set(String(gameId), [...actions, action]);
+    this.bumpVersion(gameId);
+    return { appended: true, count: actions.length + 1 };
+  }
+
+  async listActions(gameId: string | number) {
+    return [...(this.actions.get(String(gameId)) || [])];
+  }
+
+  async listActionsSince(gameId: string | number, since: number) {
+    return (this.actions.get(String(gameId)) || []).slice(since);
+  }
+
+  async claimCapture(gameId: string | number, moveNumber: number, ttlSeconds: number) {
+    const key = captureLockKey(gameId, moveNumber);
+    const expiresAt = this.captureLocks.get(key);
+    if (expiresAt && expiresAt > Date.now()) return false;
+    this.captureLocks.set(key, Date.now() + ttlSeconds * 1000);
+    return true;
+  }
+
+  async releaseCapture(gameId: string | number, moveNumber: number) {
+    this.captureLocks.delete(captureLockKey(gameId, moveNumber));
+  }
+
+  async markCapturePaid(gameId: string | number, moveNumber: number) {
+    this.captureLocks.set(captureLockKey(gameId, moveNumber), Infinity);
+  }
+
+  async setCaptureTxHash(gameId: string | number, moveNumber: number, txHash: string) {
+    const moves = this.moves.get(String(gameId)) || [];
+    if (!moves[moveNumber - 1]) throw new Error(`Move ${moveNumber} not found`);
+    this.moves.set(String(gameId), moves.map((move, index) =>
+      index === moveNumber - 1 ? { ...move, captureTxHash: txHash } : move
+    ));
+  }
+
+  async clear(gameId: string | number) {
+    this.moves.delete(String(gameId));
+    this.actions.delete(String(gameId));
+    this.bumpVersion(gameId);
+  }
+
+  async getMetadata(gameId: string | number) {
+    return { ...(this.metadata.get(String(gameId)) || {}) };
+  }
+
+  async setMetadata(gameId: string | number, metadata: GameMetadata) {
+    this.metadata.set(String(gameId), { ...(this.metadata.get(String(gameId)) || {}), ...metadata });
+  }
+
+  async appendAuditLog(gameId: string | number, entry: AuditLogEntry) {
+    this.auditLog.set(String(gameId), [...(this.auditLog.get(String(gameId)) || []), entry]);
+  }
+
+  async listAuditLog(gameId: string | number) {
+    return [...(this.auditLog.get(String(gameId)) || [])];
+  }
+}
+
+/**
+ * One network's games in a shared store
+ * Game IDs restart on every contract, so games off the default network are
+ * kept under `${chainId}:${gameId}`; default-network games keep their plain keys
+ */
+export class ChainMoveStore implements MoveStore {
+  constructor(private store: MoveStore, private chainId: number) {}
+
+  private key(gameId: string | number) {
+    return `${this.chainId}:${gameId}`;
+  }
+
+  append(gameId: string | number, expectedCount: number, move: GameMove) {
+    return this.store.append(this.key(gameId), expectedCount, move);
+  }
+
+  list(gameId: string | number) {
+    return this.store.list(this.key(gameId));
+  }
+
+  listSince(gameId: string | number, since: number) {
+    return this.store.listSince(this.key(gameId), since);
+  }
+
+  count(gameId: string | number) {
+    return this.store.count(this.key(gameId));
+  }
+
+  getVersion(gameId: string | number) {
+    return this.store.getVersion(this.key(gameId));
+  }
+
+  appendAction(gameId: string | number, expectedCount: number, action: GameAction) {
+    return this.store.appendAction(this.key(gameId), expectedCount, action);
+  }
+
+  listActions(gameId: string | number) {
+    return this.store.listActions(this.key(gameId));
+  }
+
+  listActionsSince(gameId: string | number, since: number) {
+    return this.store.listActionsSince(this.key(gameId), since);
+  }
+
+  claimCapture(gameId: string | number, moveNumber: number, ttlSeconds: number) {
+    return this.store.claimCapture(this.key(gameId), moveNumber, ttlSeconds);
+  }
+
+  releaseCapture(gameId: string | number, moveNumber: number) {
+    return this.store.releaseCapture(this.key(gameId), moveNumber);
+  }
+
+  markCapturePaid(gameId: string | number, moveNumber: number, txHash: string) {
+    return this.store.markCapturePaid(this.key(gameId), moveNumber, txHash);
+  }
+
+  setCaptureTxHash(gameId: string | number, moveNumber: number, txHash: string) {
+    return this.store.setCaptureTxHash(this.key(gameId), moveNumber, txHash);
+  }
+
+  clear(gameId: string | number) {
+    return this.store.clear(this.key(gameId));
+  }
+
+  getMetadata(gameId: string | number) {
+    return this.store.getMetadata(this.key(gameId));
+  }
+
+  setMetadata(gameId: string | number, metadata: GameMetadata) {
+    return this.store.setMetadata(this.key(gameId), metadata);
+  }
+
+  appendAuditLog(gameId: string | number, entry: AuditLogEntry) {
+    return this.store.appendAuditLog(this.key(gameId), entry);
+  }
+
+  listAuditLog(gameId: string | number) {
+    return this.store.listAuditLog(this.key(gameId));
+  }
+}
+
+/**
+ * Pick the backend from the environment
+ * Upstash when credentials are configured. The memory store must be asked for
+ * with MOVE_STORE=memory (tests get it by default) and is refused in production,
+ * where losing every game on restart is never what was meant
+ */
+export function createMoveStore(env: Record<string, string | undefined> = process.env): MoveStore {
+  const url = env.KV_REST_API_URL || env.UPSTASH_REDIS_REST_URL;
+  const token = env.KV_REST_API_TOKEN || env.UPSTASH_REDIS_REST_TOKEN;
+  const isProduction = env.NODE_ENV === 'production';
+
+  // MOVE_STORE=memory|upstash
+  const backend = env.MOVE_STORE || (env.NODE_ENV === 'test' && !url ? 'memory' : 'upstash');
+
+  if (backend === 'memory') {
+    if (isProduction) {
+      throw new Error('MOVE_STORE=memory is not allowed in production, configure Upstash or Vercel KV');
+    }
+    console.log('[Move Store] Using in-memory store');
+    return new MemoryMoveStore();
+  }
+
+  if (backend !== 'upstash') {
+    throw new Error(`Unknown MOVE_STORE backend: ${backend}`);
+  }
+
+  if (!url || !token) {
+    throw new Error(
+      'Move store requires KV_REST_API_URL/KV_REST_API_TOKEN or UPSTASH_REDIS_REST_URL/UPSTASH_REDIS_REST_TOKEN' +
+      (isProduction ? '' : '; set MOVE_STORE=memory to run without one')
+    );
+  }
+
+  // Supports both Vercel KV (KV_REST_API_URL/KV_REST_API_TOKEN)
+  // and Upstash (UPSTASH_REDIS_REST_URL/UPSTASH_REDIS_REST_TOKEN)
+  return new UpstashMoveStore(new Redis({ url, token }));
+}
+
+// Route handlers are bundled separately in development, so the store is kept on
+// globalThis to let every route share the same in-memory data
+const globalForStore = globalThis as unknown as { minichessMoveStore?: MoveStore };
+
+/**
+ * Move store selected by the MOVE_STORE environment variable, for one network's games
+ */
+export function getMoveStore(chainId = DEFAULT_CHAIN_ID): MoveStore {
+  if (!globalForStore.minichessMoveStore) {
+    globalForStore.minichessMoveStore = createMoveStore();
+  }
+  const store = globalForStore.minichessMoveStore;
+  return chainId === DEFAULT_CHAIN_ID ? store : new ChainMoveStore(store, chainId);
+}
@@ -0,0 +1,127 @@
+import { Address, Chain } from 'viem';
+import { anvil, celo, celoSepolia } from 'viem/chains';
+
+export interface NetworkConfig {
+  chain: Chain;
+  name: string;
+  contractAddress?: Address; // MiniChess escrow, unset until deployed on this network
+  paymasterAddress?: Address; // MiniChessCustomPaymaster, for sponsorship limits
+  stablecoins: {
+    cUSD?: Address; // Escrow token
+    USDC?: Address;
+    USDT?: Address;
+  };
+  bundlerUrl: string;
+  explorerUrl?: string;
+  faucetUrl?: string; // Where to get test cUSD
+  testnet: boolean;
+}
+
+const CHAIN_ENV_NETWORKS: Record<string, number> = {
+  mainnet: celo.id,
+  testnet: celoSepolia.id,
+  local: anvil.id
+};
+
+/**
+ * Network this deployment targets by default, from NEXT_PUBLIC_CHAIN_ENV
+ * The wallet is offered it first and requests without a chainId are for it;
+ * NEXT_PUBLIC_CONTRACT_ADDRESS / NEXT_PUBLIC_BUNDLER_URL apply to it
+ */
+export const DEFAULT_CHAIN_ID = CHAIN_ENV_NETWORKS[process.env.NEXT_PUBLIC_CHAIN_ENV || 'testnet'] ?? celoSepolia.id;
+
+// The unscoped variables configure the default network
+const onDefault = <T>(chainId: number, value: T | undefined) => chainId === DEFAULT_CHAIN_ID ? value : undefined;
+
+// Next.js only inlines NEXT_PUBLIC_* variables referenced by their full name,
+// so every network lists its own variables
+export const NETWORKS: Record<number, NetworkConfig> = {
+  [celo.id]: {
+    chain: celo,
+    name: 'Celo',
+    contractAddress: (process.env.NEXT_PUBLIC_CELO_CONTRACT_ADDRESS || onDefault(celo.id, process.env.NEXT_PUBLIC_CONTRACT_ADDRESS)) as Address | undefined,
+    paymasterAddress: (process.env.NEXT_PUBLIC_CELO_PAYMASTER_ADDRESS || onDefault(celo.id, process.env.NEXT_PUBLIC_PAYMASTER_ADDRESS)) as Address | undefined,
+    stablecoins: {
+      cUSD: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+      USDC: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+      USDT: '0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e'
+    },
+    bundlerUrl: process.env.NEXT_PUBLIC_CELO_BUNDLER_URL || onDefault(celo.id, process.env.NEXT_PUBLIC_BUNDLER_URL) || 'http://localhost:3001',
+    explorerUrl: 'https://celoscan.io',
+    testnet: false
+  },
+  [celoSepolia.id]: {
+    chain: celoSepolia,
+    name: 'Celo Sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_CELO_SEPOLIA_CONTRACT_ADDRESS || onDefault(celoSepolia.id, process.env.NEXT_PUBLIC_CONTRACT_ADDRESS)) as Address | undefined,
+    paymasterAddress: (process.env.NEXT_PUBLIC_CELO_SEPOLIA_PAYMASTER_ADDRESS || onDefault(celoSepolia.id, process.env.NEXT_PUBLIC_PAYMASTER_ADDRESS)) as Address | undefined,
+    stablecoins: {
+      cUSD: '0xdE9e4C3ce781b4bA68120d6261cbad65ce0aB00b'
+    },
+    bundlerUrl: process.env.NEXT_PUBLIC_CELO_SEPOLIA_BUNDLER_URL || onDefault(celoSepolia.id, process.env.NEXT_PUBLIC_BUNDLER_URL) || 'http://localhost:3001',
+    explorerUrl: 'https://celo-sepolia.blockscout.com',
+    faucetUrl: 'https://faucet.celo.org',
+    testnet: true
+  },
+  [anvil.id]: {
+    chain: anvil,
+    name: 'Anvil (local)',
+    contractAddress: (process.env.NEXT_PUBLIC_ANVIL_CONTRACT_ADDRESS || onDefault(anvil.id, process.env.NEXT_PUBLIC_CONTRACT_ADDRESS)) as Address | undefined,
+    paymasterAddress: (process.env.NEXT_PUBLIC_ANVIL_PAYMASTER_ADDRESS || onDefault(anvil.id, process.env.NEXT_PUBLIC_PAYMASTER_ADDRESS)) as Address | undefined,
+    stablecoins: {
+      cUSD: process.env.NEXT_PUBLIC_ANVIL_CUSD_ADDRESS as Address | undefined // Mock token deployed with the contract
+    },
+    bundlerUrl: process.env.NEXT_PUBLIC_ANVIL_BUNDLER_URL || onDefault(anvil.id, process.env.NEXT_PUBLIC_BUNDLER_URL) || 'http://localhost:3001',
+    testnet: true
+  }
+};
+
+/**
+ * Networks the wallet may connect to, default network first
+ * Mainnet and testnet are always listed; the local devnet only when it is the default
+ */
+export const SUPPORTED_NETWORKS: NetworkConfig[] = [
+  NETWORKS[DEFAULT_CHAIN_ID],
+  ...[celo.id, celoSepolia.id]
+    .filter(chainId => chainId !== DEFAULT_CHAIN_ID)
+    .map(chainId => NETWORKS[chainId])
+];
+
+export const SUPPORTED_CHAIN_IDS = SUPPORTED_NETWORKS.map(network => network.chain.id);
+
+export function isSupportedChain(chainId?: number): boolean {
+  return chainId !== undefined && SUPPORTED_CHAIN_IDS.includes(chainId);
+}
+
+/**
+ * Chain ID from a request's chainId parameter: the default network when it
+ * is missing, null when it names a chain this deployment does not support
+ */
+export function parseChainIdParam(value: string | null): number | null {
+  if (value === null || value === '') return DEFAULT_CHAIN_ID;
+  const chainId = Number(value);
+  return isSupportedChain(chainId) ? chainId : null;
+}
+
+/**
+ * Config for a supported chain, falling back to the default network
+ */
+export function getNetwork(chainId?: number): NetworkConfig {
+  return chainId !== undefined && isSupportedChain(chainId) ? NETWORKS[chainId] : NETWORKS[DEFAULT_CHAIN_ID];
+}
+
+/**
+ * Escrow contract on a network; throws if it has not been deployed there
+ */
+export function getContractAddress(chainId?: number): Address {
+  const network = getNetwork(chainId);
+  if (!network.contractAddress) {
+    throw new Error(`MiniChess is not deployed on ${network.name}`);
+  }
+  return network.contractAddress;
+}
+
+export function getExplorerTxUrl(txHash: string, chainId?: number): string | undefined {
+  const { explorerUrl } = getNetwork(chainId);
+  return explorerUrl && `${explorerUrl}/tx/${txHash}`;
+}
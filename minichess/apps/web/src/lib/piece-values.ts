@@ -0,0 +1,22 @@
+import type { PieceSymbol } from 'chess.js';
+
+// cUSD paid to the captor, matching the *_VALUE constants in the escrow contract
+export const PIECE_VALUES: Record<PieceSymbol, number> = {
+  p: 0.05, // Pawn
+  n: 0.15, // Knight
+  b: 0.15, // Bishop
+  r: 0.25, // Rook
+  q: 0.50, // Queen
+  k: 0,    // King
+};
+
+// On-chain PieceType by chess.js piece symbol. chess.js reports a capture as the
+// piece standing on the square, so a promoted knight is paid out as a KNIGHT
+export const PIECE_TYPE_MAP: Record<PieceSymbol, number> = {
+  p: 0, // PAWN
+  n: 1, // KNIGHT
+  b: 2, // BISHOP
+  r: 3, // ROOK
+  q: 4, // QUEEN
+  k: 5, // KING
+};
@@ -0,0 +1,44 @@
+import { privateKeyToAccount } from 'viem/accounts';
+import { BundlerClient } from '@/lib/bundler-client';
+import { DEFAULT_CHAIN_ID } from '@/lib/networks';
+
+const relayBundlers = new Map<number, BundlerClient>();
+
+/**
+ * Bundler client the relays send through on a network
+ * BUNDLER_URL lets the server reach the default network's bundler on a private address
+ */
+export function getRelayBundler(chainId: number): BundlerClient {
+  let bundler = relayBundlers.get(chainId);
+  if (!bundler) {
+    bundler = new BundlerClient({
+      chainId,
+      url: chainId === DEFAULT_CHAIN_ID ? process.env.BUNDLER_URL : undefined
+    });
+    relayBundlers.set(chainId, bundler);
+  }
+  return bundler;
+}
+
+/**
+ * Server key that sends relayed captures and settlements to the bundler
+ * It only pays for the transactions; the arbiter's signatures authorize them
+ */
+export function getRelayerAccount() {
+  const privateKey = process.env.CAPTURE_RELAYER_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error('CAPTURE_RELAYER_PRIVATE_KEY is not configured');
+  }
+  return privateKeyToAccount(privateKey as `0x${string}`);
+}
+
+/**
+ * Server key the escrow contract trusts to confirm captures and results (its arbiter)
+ */
+export function getArbiterAccount() {
+  const privateKey = process.env.ARBITER_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error('ARBITER_PRIVATE_KEY is not configured');
+  }
+  return privateKeyToAccount(privateKey as `0x${string}`);
+}
@@ -0,0 +1,107 @@
+import { LocalAccount, toHex, hexToBytes } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+
+// Per-game secp256k1 keys that sign moves and actions once the player has
+// authorised them in their AUTHORIZE_SESSION signature, see lib/move-signature.
+// Private keys are stored AES-GCM encrypted in IndexedDB; the AES key is
+// generated non-extractable, so script can use it but never read it out
+
+const DB_NAME = 'minichess_session_keys';
+const KEYS_STORE = 'keys';
+const ENCRYPTION_STORE = 'encryption';
+const ENCRYPTION_KEY_ID = 'aes-gcm';
+
+interface StoredSessionKey {
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+}
+
+const sessionKeyId = (address: string, gameId: number, chainId: number) =>
+  `${chainId}_${address.toLowerCase()}_${gameId}`;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(KEYS_STORE);
+      request.result.createObjectStore(ENCRYPTION_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function getEncryptionKey(): Promise<CryptoKey> {
+  const existing = await withStore<CryptoKey | undefined>(ENCRYPTION_STORE, 'readonly', store => store.get(ENCRYPTION_KEY_ID));
+  if (existing) return existing;
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await withStore(ENCRYPTION_STORE, 'readwrite', store => store.put(key, ENCRYPTION_KEY_ID));
+  return key;
+}
+
+/**
+ * Generate and store a fresh session key for a game, replacing any previous one
+ */
+export async function createSessionKey(address: string, gameId: number, chainId: number): Promise<LocalAccount> {
+  const privateKey = generatePrivateKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getEncryptionKey(), new Uint8Array(hexToBytes(privateKey)));
+
+  const stored: StoredSessionKey = { iv, ciphertext };
+  await withStore(KEYS_STORE, 'readwrite', store => store.put(stored, sessionKeyId(address, gameId, chainId)));
+  return privateKeyToAccount(privateKey);
+}
+
+/**
+ * The stored session key for a game, or null if there is none or it cannot be decrypted
+ */
+export async function loadSessionKey(address: string, gameId: number, chainId: number): Promise<LocalAccount | null> {
+  if (typeof indexedDB === 'undefined') return null;
+
+  try {
+    const stored = await withStore<StoredSessionKey | undefined>(KEYS_STORE, 'readonly', store =>
+      store.get(sessionKeyId(address, gameId, chainId))
+    );
+    if (!stored) return null;
+
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, await getEncryptionKey(), stored.ciphertext);
+    return privateKeyToAccount(toHex(new Uint8Array(plaintext)));
+  } catch (error) {
+    console.warn('[Session Key] Could not load session key for game', gameId, error);
+    return null;
+  }
+}
+
+export async function removeSessionKey(address: string, gameId: number, chainId: number) {
+  if (typeof indexedDB === 'undefined') return;
+  await withStore(KEYS_STORE, 'readwrite', store => store.delete(sessionKeyId(address, gameId, chainId)));
+}
+
+/**
+ * Remove every stored session key for an address, on any game or chain
+ */
+export async function removeSessionKeysFor(address: string) {
+  if (typeof indexedDB === 'undefined') return;
+
+  const suffix = `_${address.toLowerCase()}_`;
+  const ids = await withStore<IDBValidKey[]>(KEYS_STORE, 'readonly', store => store.getAllKeys());
+  await Promise.all(
+    ids
+      .filter(id => String(id).includes(suffix))
+      .map(id => withStore(KEYS_STORE, 'readwrite', store => store.delete(id)))
+  );
+}
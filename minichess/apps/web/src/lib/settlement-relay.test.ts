@@ -0,0 +1,187 @@
+import { Chess } from 'chess.js';
+import { TransactionReceipt, decodeFunctionData, recoverMessageAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { waitForGameEnded } from '@/lib/escrow-game';
+import { GameAction, GameActionType } from '@/lib/game-actions';
+import { GameMove } from '@/lib/game-moves';
+import { miniChessEscrowPaymasterAbi } from '@/lib/minichess-client';
+import { buildDrawMessageHash, buildEndGameMessageHash } from '@/lib/move-signature';
+import { DEFAULT_CHAIN_ID } from '@/lib/networks';
+import { getSettlementVerdict, submitSettlement } from '@/lib/settlement-relay';
+
+const RELAYER = privateKeyToAccount(`0x${'5'.repeat(64)}`);
+const ARBITER = privateKeyToAccount(`0x${'4'.repeat(64)}`);
+const TX_HASH = `0x${'ab'.repeat(32)}` as const;
+const CONTRACT = '0x3333333333333333333333333333333333333333';
+
+const relayBundler = vi.hoisted(() => ({ execute: vi.fn() }));
+
+vi.mock('@/lib/relayer', () => ({
+  getRelayBundler: () => relayBundler,
+  getRelayerAccount: () => RELAYER,
+  getArbiterAccount: () => ARBITER
+}));
+
+vi.mock('@/lib/networks', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/networks')>(),
+  getContractAddress: () => CONTRACT
+}));
+
+vi.mock('@/lib/escrow-game', () => ({
+  waitForGameEnded: vi.fn()
+}));
+
+const PLAYERS = {
+  player1: '0x1111111111111111111111111111111111111111',
+  player2: '0x2222222222222222222222222222222222222222'
+};
+
+// Stored moves for a game played in SAN, alternating between the players
+function toMoves(sans: string[]): GameMove[] {
+  const chess = new Chess();
+  return sans.map((san, index) => {
+    const move = chess.move(san);
+    return {
+      from: move.from,
+      to: move.to,
+      promotion: move.promotion,
+      player: move.color === 'w' ? PLAYERS.player1 : PLAYERS.player2,
+      timestamp: index,
+      moveNumber: index + 1
+    };
+  });
+}
+
+function toActions(entries: [GameActionType, string, number][]): GameAction[] {
+  return entries.map(([action, player, moveNumber], index) => ({
+    action,
+    player,
+    actionNumber: index + 1,
+    moveNumber,
+    timestamp: index
+  }));
+}
+
+const FOOLS_MATE = ['f3', 'e5', 'g4', 'Qh4#'];
+const STALEMATE = [
+  'e3', 'a5', 'Qh5', 'Ra6', 'Qxa5', 'h5', 'h4', 'Rah6', 'Qxc7', 'f6',
+  'Qxd7+', 'Kf7', 'Qxb7', 'Qd3', 'Qxb8', 'Qh7', 'Qxc8', 'Kg6', 'Qe6'
+];
+
+describe('getSettlementVerdict', () => {
+  it('awards a checkmate to the side that delivered it', () => {
+    expect(getSettlementVerdict(toMoves(FOOLS_MATE), [], PLAYERS)).toEqual({ winner: PLAYERS.player2, reason: 'checkmate' });
+    expect(getSettlementVerdict(toMoves(['e4', 'e5', 'Bc4', 'Nc6', 'Qh5', 'Nf6', 'Qxf7#']), [], PLAYERS))
+      .toEqual({ winner: PLAYERS.player1, reason: 'checkmate' });
+  });
+
+  it('awards a resignation to the opponent', () => {
+    const moves = toMoves(['e4']);
+
+    expect(getSettlementVerdict(moves, toActions([['resign', PLAYERS.player1, 1]]), PLAYERS))
+      .toEqual({ winner: PLAYERS.player2, reason: 'resignation' });
+    expect(getSettlementVerdict(moves, toActions([['resign', PLAYERS.player2.toUpperCase().replace('0X', '0x'), 1]]), PLAYERS))
+      .toEqual({ winner: PLAYERS.player1, reason: 'resignation' });
+  });
+
+  it('lets a checkmate on the board stand over a later resignation', () => {
+    const verdict = getSettlementVerdict(toMoves(FOOLS_MATE), toActions([['resign', PLAYERS.player2, 4]]), PLAYERS);
+
+    expect(verdict).toEqual({ winner: PLAYERS.player2, reason: 'checkmate' });
+  });
+
+  it('returns a draw with no winner', () => {
+    expect(getSettlementVerdict(toMoves(STALEMATE), [], PLAYERS)).toEqual({ winner: null, reason: 'stalemate' });
+    expect(getSettlementVerdict(toMoves(['e4']), toActions([
+      ['offer_draw', PLAYERS.player1, 1],
+      ['accept_draw', PLAYERS.player2, 1]
+    ]), PLAYERS)).toEqual({ winner: null, reason: 'mutual_agreement' });
+  });
+
+  it('returns null while the game is still being played', () => {
+    expect(getSettlementVerdict([], [], PLAYERS)).toBeNull();
+    expect(getSettlementVerdict(toMoves(['e4', 'e5']), [], PLAYERS)).toBeNull();
+  });
+
+  it('does not settle an offered or declined draw', () => {
+    const moves = toMoves(['e4']);
+
+    expect(getSettlementVerdict(moves, toActions([['offer_draw', PLAYERS.player1, 1]]), PLAYERS)).toBeNull();
+    expect(getSettlementVerdict(moves, toActions([
+      ['offer_draw', PLAYERS.player1, 1],
+      ['decline_draw', PLAYERS.player2, 1]
+    ]), PLAYERS)).toBeNull();
+  });
+
+  it('throws on an illegal stored history', () => {
+    const moves = toMoves(['e4']);
+    moves.push({ ...moves[0], moveNumber: 2 });
+
+    expect(() => getSettlementVerdict(moves, [], PLAYERS)).toThrow('Stored move 2 (e2 -> e4) is illegal');
+  });
+});
+
+describe('submitSettlement', () => {
+  beforeEach(() => {
+    vi.mocked(relayBundler.execute).mockReset().mockResolvedValue({
+      receipt: {} as TransactionReceipt,
+      userOpHash: 'settle-7',
+      transactionHash: TX_HASH,
+      transactionHashes: [TX_HASH]
+    });
+    vi.mocked(waitForGameEnded).mockReset().mockResolvedValue({
+      gameId: 7n,
+      winner: PLAYERS.player2,
+      player1Payout: 0n,
+      player2Payout: 0n,
+      timedOut: false,
+      isDraw: false,
+      transactionHash: TX_HASH,
+      blockNumber: 1n
+    });
+  });
+
+  const sentCall = () => {
+    const [sender, [operation], options] = vi.mocked(relayBundler.execute).mock.calls[0];
+    expect(operation.target).toBe(CONTRACT);
+    return { sender, options, call: decodeFunctionData({ abi: miniChessEscrowPaymasterAbi, data: operation.data }) };
+  };
+
+  it('sends endGame from the relayer with the arbiter signature for the winner', async () => {
+    await submitSettlement(7, { winner: PLAYERS.player2, reason: 'resignation' }, DEFAULT_CHAIN_ID);
+
+    const { sender, options, call } = sentCall();
+    expect(sender).toBe(RELAYER.address);
+    expect(options).toEqual({ idempotencyKey: 'settle-7' });
+    expect(call.functionName).toBe('endGame');
+
+    const [gameId, winner, signature] = call.args as [bigint, string, `0x${string}`];
+    expect(gameId).toBe(7n);
+    expect(winner).toBe(PLAYERS.player2);
+    expect(await recoverMessageAddress({
+      message: { raw: buildEndGameMessageHash(7, PLAYERS.player2, DEFAULT_CHAIN_ID) },
+      signature
+    })).toBe(ARBITER.address);
+  });
+
+  it('sends endGameDraw with the arbiter signature for a draw', async () => {
+    vi.mocked(waitForGameEnded).mockResolvedValue({ ...(await waitForGameEnded(TX_HASH))!, isDraw: true });
+
+    await submitSettlement(7, { winner: null, reason: 'stalemate' }, DEFAULT_CHAIN_ID);
+
+    const { call } = sentCall();
+    expect(call.functionName).toBe('endGameDraw');
+    const [, signature] = call.args as [bigint, `0x${string}`];
+    expect(await recoverMessageAddress({
+      message: { raw: buildDrawMessageHash(7, DEFAULT_CHAIN_ID) },
+      signature
+    })).toBe(ARBITER.address);
+  });
+
+  it('fails when the transaction did not end the game', async () => {
+    vi.mocked(waitForGameEnded).mockResolvedValue(null);
+
+    await expect(submitSettlement(7, { winner: PLAYERS.player1, reason: 'checkmate' }, DEFAULT_CHAIN_ID)).rejects.toThrow(`Settlement ${TX_HASH} did not end game 7`);
+  });
+});
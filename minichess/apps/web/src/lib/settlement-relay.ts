@@ -0,0 +1,82 @@
+import { Address, encodeFunctionData } from 'viem';
+import { DrawReason, GameMove, GamePlayers, classifyDraw, replayMoves } from '@/lib/game-moves';
+import { GameAction, getGameActionState } from '@/lib/game-actions';
+import { GameEndedEvent, waitForGameEnded } from '@/lib/escrow-game';
+import { miniChessEscrowPaymasterAbi } from '@/lib/minichess-client';
+import { buildDrawMessageHash, buildEndGameMessageHash } from '@/lib/move-signature';
+import { getContractAddress } from '@/lib/networks';
+import { getArbiterAccount, getRelayBundler, getRelayerAccount } from '@/lib/relayer';
+
+export type SettlementReason = 'checkmate' | 'resignation' | DrawReason;
+
+export interface SettlementVerdict {
+  winner: string | null; // On-chain player, null for a draw
+  reason: SettlementReason;
+}
+
+/**
+ * Result of a game from its stored move and action logs, or null if it is still being played
+ * player1 plays white and player2 plays black
+ * Throws if the stored history is illegal
+ */
+export function getSettlementVerdict(moves: GameMove[], actions: GameAction[], players: GamePlayers): SettlementVerdict | null {
+  const position = replayMoves(moves);
+
+  // The side to move is the side that has been mated
+  if (position.isCheckmate()) {
+    return { winner: position.turn() === 'w' ? players.player2 : players.player1, reason: 'checkmate' };
+  }
+
+  const actionState = getGameActionState(actions, moves.length, players);
+  if (actionState.resignedBy) {
+    const resignedAsPlayer1 = actionState.resignedBy.toLowerCase() === players.player1.toLowerCase();
+    return { winner: resignedAsPlayer1 ? players.player2 : players.player1, reason: 'resignation' };
+  }
+
+  const drawReason = classifyDraw(moves, { agreed: actionState.drawAgreed });
+  return drawReason && { winner: null, reason: drawReason };
+}
+
+/**
+ * Send endGame or endGameDraw for a verdict through the bundler and wait for GameEnded
+ * Only the server encodes settlements, so the winner always comes from the logs.
+ * Each carries the arbiter's END_GAME or END_GAME_DRAW signature, which is what
+ * the contract checks; the relayer account only pays for the transaction.
+ * One idempotency key per game, so racing settle requests send it once
+ */
+export async function submitSettlement(gameId: number, verdict: SettlementVerdict, chainId: number): Promise<GameEndedEvent> {
+  const account = getRelayerAccount();
+
+  const operation = {
+    target: getContractAddress(chainId),
+    data: verdict.winner
+      ? encodeFunctionData({
+        abi: miniChessEscrowPaymasterAbi,
+        functionName: 'endGame',
+        args: [BigInt(gameId), verdict.winner as Address, await signWin(gameId, verdict.winner, chainId)]
+      })
+      : encodeFunctionData({ abi: miniChessEscrowPaymasterAbi, functionName: 'endGameDraw', args: [BigInt(gameId), await signDraw(gameId, chainId)] })
+  };
+
+  const { transactionHash } = await getRelayBundler(chainId).execute(account.address, [operation], {
+    idempotencyKey: `settle-${gameId}`
+  });
+
+  const event = await waitForGameEnded(transactionHash, chainId);
+  if (!event || event.gameId !== BigInt(gameId)) {
+    throw new Error(`Settlement ${transactionHash} did not end game ${gameId}`);
+  }
+  return event;
+}
+
+async function signWin(gameId: number, winner: string, chainId: number): Promise<`0x${string}`> {
+  return getArbiterAccount().signMessage({
+    message: { raw: buildEndGameMessageHash(gameId, winner, chainId) }
+  });
+}
+
+async function signDraw(gameId: number, chainId: number): Promise<`0x${string}`> {
+  return getArbiterAccount().signMessage({
+    message: { raw: buildDrawMessageHash(gameId, chainId) }
+  });
+}
@@ -1,3 +1,4 @@
+const crypto = require('crypto');
 const express = require('express');
 const { ethers } = require('ethers');
 const cors = require('cors');
@@ -41,6 +42,115 @@ const paymasterABI = [
 const entryPointContract = new ethers.Contract(config.ENTRYPOINT_ADDRESS, entryPointABI, provider);
 const paymasterContract = new ethers.Contract(config.PAYMASTER_ADDRESS, paymasterABI, provider);
 
+// Default gas limit for operations that do not set their own
+const DEFAULT_GAS_LIMIT = 3000000;
+
+// Batches keyed by the client's Idempotency-Key header, so a retried request
+// resumes the original batch instead of sending its transactions again
+// In-memory only: entries are lost when the bundler restarts
+const trackedOperations = new Map();
+const TRACKED_OPERATION_TTL = 60 * 60 * 1000; // 1 hour
+
+function pruneTrackedOperations() {
+  const cutoff = Date.now() - TRACKED_OPERATION_TTL;
+  for (const [key, tracked] of trackedOperations) {
+    if (tracked.status !== 'pending' && tracked.updatedAt < cutoff) {
+      trackedOperations.delete(key);
+    }
+  }
+}
+
+// Execute a batch in order, skipping operations a previous attempt already confirmed
+// Each hash is recorded as soon as it is sent, so a retry checks the chain
+// instead of sending an operation that may already be mined
+async function executeOperations(tracked, operations) {
+  for (let index = 0; index < operations.length; index++) {
+    const op = operations[index];
+    const recorded = tracked.results[index];
+    if (recorded && recorded.status === 'confirmed') continue;
+
+    if (recorded) {
+      const receipt = await getSentReceipt(recorded.transactionHash);
+      if (receipt) {
+        await confirmOperation(tracked, index, op, receipt);
+        continue;
+      }
+      console.log(`Transaction ${recorded.transactionHash} was dropped, sending operation ${index} again`);
+    }
+
+    console.log('Executing operation:', op);
+
+    const tx = await wallet.sendTransaction({
+      to: op.target,
+      data: op.data,
+      value: op.value || '0',
+      gasLimit: op.gasLimit || DEFAULT_GAS_LIMIT // Explicit gas limit to bypass estimation for dependent txs
+    });
+
+    console.log('Transaction sent:', tx.hash);
+    tracked.results[index] = { transactionHash: tx.hash, status: 'sent' };
+    tracked.updatedAt = Date.now();
+
+    // Wait for confirmation to prevent nonce conflicts
+    let receipt;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      // Reverted on-chain; anything else leaves the hash as sent for a retry to check
+      if (!error.receipt) throw error;
+      receipt = error.receipt;
+    }
+    await confirmOperation(tracked, index, op, receipt);
+  }
+}
+
+// Receipt of a transaction an earlier attempt sent, waiting for it if it is
+// still pending; null if it was dropped and never mined
+async function getSentReceipt(transactionHash) {
+  const receipt = await provider.getTransactionReceipt(transactionHash);
+  if (receipt) return receipt;
+
+  const pending = await provider.getTransaction(transactionHash);
+  return pending ? provider.waitForTransaction(transactionHash) : null;
+}
+
+// Mark an operation confirmed from its receipt, or throw if it reverted
+async function confirmOperation(tracked, index, op, receipt) {
+  if (receipt.status !== 1) {
+    tracked.results[index].status = 'reverted';
+    tracked.updatedAt = Date.now();
+    // The explicit gas limit skipped estimation, so replay it for the reason
+    const reason = await getRevertReason(op, receipt.blockNumber);
+    throw new Error(`Operation ${index} reverted${reason ? `: ${reason}` : ''}`);
+  }
+
+  console.log('Transaction confirmed:', receipt.hash);
+  tracked.results[index].status = 'confirmed';
+  tracked.updatedAt = Date.now();
+}
+
+// Hash of a batch's operations, so an Idempotency-Key cannot be reused for another batch
+function hashOperations(operations) {
+  return crypto.createHash('sha256').update(JSON.stringify(operations)).digest('hex');
+}
+
+// Replay an operation against the state before its block and return why it reverts
+// Falls back to the raw revert data for custom errors, which clients decode against the ABI
+async function getRevertReason(op, blockNumber) {
+  try {
+    await provider.call({
+      from: wallet.address,
+      to: op.target,
+      data: op.data,
+      value: op.value || '0',
+      blockTag: blockNumber - 1
+    });
+    return null;
+  } catch (error) {
+    return error.reason || error.data || null;
+  }
+}
+
 // Helper function to validate user operation
 async function validateUserOp(userOp) {
   try {
@@ -138,35 +248,58 @@ app.post('/sendUserOperation', async (req, res) => {
         return res.status(400).json({ error: 'Missing sender or operations' });
       }
       
+      pruneTrackedOperations();
+
       // For now, we'll execute each operation directly using the wallet
       // This is a simplified approach - in production you'd want to use account abstraction properly
-      const results = [];
-      
-      for (const op of operations) {
-        console.log('Executing operation:', op);
-        
-        const tx = await wallet.sendTransaction({
-          to: op.target,
-          data: op.data,
-          value: op.value || '0',
-          gasLimit: 3000000 // Explicit gas limit to bypass estimation for dependent txs
-        });
-        
-        console.log('Transaction sent:', tx.hash);
-        // Wait for confirmation to prevent nonce conflicts
-        const receipt = await tx.wait();
-        console.log('Transaction confirmed:', receipt.hash);
-        
-        results.push({
-          transactionHash: tx.hash,
-          status: 'confirmed'
-        });
+      const idempotencyKey = req.get('Idempotency-Key');
+      let tracked = idempotencyKey && trackedOperations.get(idempotencyKey);
+
+      const operationsHash = hashOperations(operations);
+
+      if (tracked && tracked.sender.toLowerCase() !== sender.toLowerCase()) {
+        return res.status(409).json({ error: 'Idempotency-Key was used for a different sender' });
       }
-      
+
+      if (tracked && tracked.operationsHash !== operationsHash) {
+        return res.status(409).json({ error: 'Idempotency-Key was used for different operations' });
+      }
+
+      if (!tracked) {
+        tracked = { sender, operationsHash, status: 'pending', results: [], error: null, promise: null, updatedAt: Date.now() };
+        if (idempotencyKey) trackedOperations.set(idempotencyKey, tracked);
+      }
+
+      // Join a batch that is still running, or resume one that failed part way
+      if (tracked.status !== 'success') {
+        if (!tracked.promise) {
+          tracked.status = 'pending';
+          tracked.error = null;
+          tracked.promise = executeOperations(tracked, operations)
+            .then(() => {
+              tracked.status = 'success';
+            })
+            .catch(error => {
+              tracked.status = 'failed';
+              tracked.error = error.message;
+            })
+            .finally(() => {
+              tracked.promise = null;
+              tracked.updatedAt = Date.now();
+            });
+        }
+        await tracked.promise;
+      }
+
+      if (tracked.status === 'failed') {
+        return res.status(500).json({ error: tracked.error, userOpHash: idempotencyKey, allTransactions: tracked.results });
+      }
+
       // Return the last transaction hash as the main result
       return res.json({
-        transactionHash: results[results.length - 1].transactionHash,
-        allTransactions: results,
+        transactionHash: tracked.results[tracked.results.length - 1].transactionHash,
+        allTransactions: tracked.results,
+        userOpHash: idempotencyKey,
         status: 'success'
       });
     }
@@ -205,13 +338,20 @@ app.post('/sendUserOperation', async (req, res) => {
 app.get('/getUserOperationStatus/:userOpHash', async (req, res) => {
   try {
     const { userOpHash } = req.params;
-    
-    // This is a simplified implementation
-    // In a real implementation, you would track user operations in a database
+    const tracked = trackedOperations.get(userOpHash);
+
+    // Only batches sent with an Idempotency-Key are tracked
+    if (!tracked) {
+      return res.status(404).json({ userOpHash, status: 'not_found' });
+    }
+
+    const last = tracked.results[tracked.results.length - 1];
     res.json({
       userOpHash,
-      status: 'pending',
-      message: 'User operation is being processed'
+      status: tracked.status,
+      transactionHash: tracked.status === 'success' ? last.transactionHash : undefined,
+      allTransactions: tracked.results,
+      error: tracked.error || undefined
     });
   } catch (error) {
     console.error('Error in getUserOperationStatus:', error);